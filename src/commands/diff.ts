@@ -0,0 +1,181 @@
+import fs from "fs";
+import path from "path";
+import ora from "ora";
+import { execFileSync } from "child_process";
+
+import { OpenApiGenerator } from "../lib/openapi-generator.js";
+import { loadConfig, resolveConfigPath } from "../lib/config-loader.js";
+import {
+  classifySpecChanges,
+  diffSpecs,
+  formatSpecChange,
+} from "../lib/spec-diff.js";
+import { readSpecFile } from "../lib/spec-writer.js";
+import { SpecDocument } from "../types.js";
+
+type DiffOptions = {
+  base?: string;
+  config?: string;
+};
+
+type SpecPair = {
+  outputFile: string;
+  oldSpec: any;
+  newSpec: any;
+};
+
+function git(args: string[]): string {
+  return execFileSync("git", args, { encoding: "utf-8" }).trim();
+}
+
+async function generateSpecs(
+  configPath?: string,
+  projectDir?: string
+): Promise<SpecDocument[]> {
+  const config = await loadConfig(resolveConfigPath(configPath), projectDir);
+
+  return new OpenApiGenerator(config, projectDir).generateAll();
+}
+
+/**
+ * Match the documents of both sides by output file, a missing one counts as empty
+ */
+function pairDocuments(
+  oldDocuments: SpecDocument[],
+  newDocuments: SpecDocument[]
+): SpecPair[] {
+  const outputFiles = new Set(
+    [...oldDocuments, ...newDocuments].map((document) => document.outputFile)
+  );
+  const findSpec = (documents: SpecDocument[], outputFile: string) =>
+    documents.find((document) => document.outputFile === outputFile)?.spec ||
+    {};
+
+  return [...outputFiles].map((outputFile) => ({
+    outputFile,
+    oldSpec: findSpec(oldDocuments, outputFile),
+    newSpec: findSpec(newDocuments, outputFile),
+  }));
+}
+
+/**
+ * Check out a git ref into a temporary worktree and generate the spec there.
+ * The worktree is inside the project, so that a TS/JS config resolves its
+ * imports, e.g. defineConfig, from the project's node_modules.
+ */
+async function generateAtRef(ref: string, configPath?: string) {
+  const prefix = git(["rev-parse", "--show-prefix"]);
+  const cwd = process.cwd();
+  const cacheDir = path.join(cwd, "node_modules", ".cache");
+  fs.mkdirSync(cacheDir, { recursive: true });
+  const worktreeDir = fs.mkdtempSync(path.join(cacheDir, "next-openapi-gen-"));
+
+  git(["worktree", "add", "--quiet", "--detach", worktreeDir, ref]);
+
+  try {
+    process.chdir(path.join(worktreeDir, prefix));
+    // Relative --config paths point to the same file in the worktree, while
+    // the gitignored .env files are only in the project
+    return await generateSpecs(configPath, cwd);
+  } finally {
+    process.chdir(cwd);
+    git(["worktree", "remove", "--force", worktreeDir]);
+  }
+}
+
+export async function diff(
+  oldFile: string | undefined,
+  newFile: string | undefined,
+  options: DiffOptions
+) {
+  const spinner = ora("Comparing OpenAPI specifications...\n").start();
+
+  let pairs: SpecPair[];
+
+  try {
+    if (options.base && oldFile) {
+      // Compare the given file with the document of the same name, or the first one
+      const oldDocuments = await generateAtRef(options.base, options.config);
+      const oldDocument =
+        oldDocuments.find(
+          (document) =>
+            path.basename(document.outputFile) === path.basename(oldFile)
+        ) || oldDocuments[0];
+
+      pairs = [
+        {
+          outputFile: oldDocument.outputFile,
+          oldSpec: oldDocument.spec,
+          newSpec: readSpecFile(path.resolve(oldFile)),
+        },
+      ];
+    } else if (options.base) {
+      // Compare with the current working tree
+      pairs = pairDocuments(
+        await generateAtRef(options.base, options.config),
+        await generateSpecs(options.config)
+      );
+    } else if (oldFile && newFile) {
+      pairs = [
+        {
+          outputFile: newFile,
+          oldSpec: readSpecFile(path.resolve(oldFile)),
+          newSpec: readSpecFile(path.resolve(newFile)),
+        },
+      ];
+    } else {
+      spinner.fail("Provide two specification files or --base <git-ref>");
+      process.exitCode = 1;
+      return;
+    }
+  } catch (error) {
+    spinner.fail(`Failed to load specifications: ${error.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const changes = pairs.flatMap(({ outputFile, oldSpec, newSpec }) =>
+    classifySpecChanges(diffSpecs(oldSpec, newSpec), oldSpec, newSpec).map(
+      (change) => ({
+        ...change,
+        // Name the document when comparing several
+        prefix: pairs.length > 1 ? `${outputFile}: ` : "",
+      })
+    )
+  );
+  const breakingChanges = changes.filter((change) => change.breaking);
+  const otherChanges = changes.filter((change) => !change.breaking);
+
+  if (changes.length === 0) {
+    spinner.succeed("No changes found");
+    return;
+  }
+
+  if (breakingChanges.length > 0) {
+    spinner.fail(
+      `Found ${breakingChanges.length} breaking and ${otherChanges.length} non-breaking changes`
+    );
+  } else {
+    spinner.succeed(`Found ${otherChanges.length} non-breaking changes`);
+  }
+
+  if (breakingChanges.length > 0) {
+    console.log("\nBreaking changes:");
+    breakingChanges.forEach((change) =>
+      console.log(
+        `  ${change.prefix}${formatSpecChange(change)} (${change.reason})`
+      )
+    );
+  }
+
+  if (otherChanges.length > 0) {
+    console.log("\nNon-breaking changes:");
+    otherChanges.forEach((change) =>
+      console.log(`  ${change.prefix}${formatSpecChange(change)}`)
+    );
+  }
+
+  if (breakingChanges.length > 0) {
+    process.exitCode = 1;
+  }
+}
@@ -1,29 +1,318 @@
 import fs from "fs";
 import fse from "fs-extra";
 import path from "path";
-import ora from "ora";
+import ora, { Ora } from "ora";
 
 import { OpenApiGenerator } from "../lib/openapi-generator.js";
+import { loadConfig, resolveConfigPath } from "../lib/config-loader.js";
+import { logger } from "../lib/logger.js";
+import { diffSpecs, formatSpecChange } from "../lib/spec-diff.js";
+import {
+  buildSpecFiles,
+  findStaleSpecFiles,
+  readSpecFile,
+  removeStaleSpecFiles,
+  serializeSpec,
+} from "../lib/spec-writer.js";
+import { FileWatcher } from "../lib/watcher.js";
+import { SpecDocument } from "../types.js";
 
-export async function generate() {
-  const spinner = ora("Generating OpenAPI specification...\n").start();
+const STDOUT = "-";
+
+type GenerateOptions = {
+  watch?: boolean;
+  check?: boolean;
+  output?: string;
+  config?: string;
+};
+
+type OutputTarget = {
+  outputDir: string;
+  outputFile: string;
+};
+
+/**
+ * Generate the documents to write, --output only applies to a single document
+ */
+function generateDocuments(
+  generator: OpenApiGenerator,
+  options: GenerateOptions
+): SpecDocument[] {
+  const documents = generator.generateAll();
+
+  if (options.output && documents.length > 1) {
+    throw new Error("--output cannot be used with multiple specs");
+  }
+
+  return documents;
+}
 
-  const generator = new OpenApiGenerator();
+/**
+ * Resolve where to write a document, --output overrides the config
+ */
+function getOutputTarget(
+  generator: OpenApiGenerator,
+  options: GenerateOptions,
+  outputFile: string
+): OutputTarget {
+  const config = generator.getConfig();
+
+  if (options.output && options.output !== STDOUT) {
+    const outputPath = path.resolve(options.output);
+    return {
+      outputDir: path.dirname(outputPath),
+      outputFile: path.basename(outputPath),
+    };
+  }
+
+  return {
+    outputDir: path.resolve(config.outputDir),
+    outputFile,
+  };
+}
+
+/**
+ * @returns Where the specification has been written
+ */
+async function writeSpec(
+  generator: OpenApiGenerator,
+  options: GenerateOptions
+): Promise<string> {
   const config = generator.getConfig();
 
   // Create api dir if not exists
   const apiDir = path.resolve(config.apiDir);
   await fse.ensureDir(apiDir);
 
-  // Create public dir if not exists
-  const outputDir = path.resolve("./public");
-  await fse.ensureDir(outputDir);
+  if (options.output === STDOUT) {
+    if (config.outputMode === "split") {
+      throw new Error("Split output mode cannot be written to stdout");
+    }
+
+    const [{ outputFile, spec }] = generateDocuments(generator, options);
+    process.stdout.write(`${serializeSpec(spec, outputFile)}\n`);
+    return "stdout";
+  }
+
+  const outputPaths: string[] = [];
+
+  for (const document of generateDocuments(generator, options)) {
+    const { outputDir, outputFile } = getOutputTarget(
+      generator,
+      options,
+      document.outputFile
+    );
+
+    // Write api docs
+    const files = buildSpecFiles(document.spec, outputFile, config.outputMode);
+    for (const [file, content] of Object.entries(files)) {
+      const filePath = path.join(outputDir, file);
+      await fse.ensureDir(path.dirname(filePath));
+      fs.writeFileSync(filePath, serializeSpec(content, filePath));
+    }
+
+    if (config.outputMode === "split") {
+      removeStaleSpecFiles(outputDir, outputFile, files);
+    }
+
+    outputPaths.push(path.join(outputDir, outputFile));
+  }
+
+  return outputPaths.join(", ");
+}
+
+/**
+ * Compare the generated specification with the existing files without writing them
+ * @returns Whether the existing files are up to date
+ */
+function checkSpec(
+  generator: OpenApiGenerator,
+  options: GenerateOptions,
+  spinner: Ora
+): boolean {
+  const config = generator.getConfig();
+  const outputPaths: string[] = [];
+  const files: Record<string, any> = {};
+  const staleFiles: string[] = [];
+
+  generateDocuments(generator, options).forEach((document) => {
+    const { outputDir, outputFile } = getOutputTarget(
+      generator,
+      options,
+      document.outputFile
+    );
+    outputPaths.push(path.join(outputDir, outputFile));
+
+    const documentFiles = buildSpecFiles(
+      document.spec,
+      outputFile,
+      config.outputMode
+    );
+    Object.entries(documentFiles).forEach(([file, content]) => {
+      files[path.join(outputDir, file)] = content;
+    });
+
+    if (config.outputMode === "split") {
+      staleFiles.push(
+        ...findStaleSpecFiles(outputDir, outputFile, documentFiles)
+      );
+    }
+  });
+
+  const outputPath = outputPaths.join(", ");
+  const missingFiles: string[] = [];
+  const changes: string[] = [];
+
+  Object.entries(files).forEach(([filePath, document]) => {
+    if (!fs.existsSync(filePath)) {
+      missingFiles.push(filePath);
+      return;
+    }
+
+    // The written file must be identical, lists included
+    diffSpecs(readSpecFile(filePath), document, { ordered: true }).forEach(
+      (change) => {
+        const prefix =
+          Object.keys(files).length > 1
+            ? `${path.relative(process.cwd(), filePath)}: `
+            : "";
+        changes.push(`${prefix}${formatSpecChange(change)}`);
+      }
+    );
+  });
+
+  if (
+    missingFiles.length === 0 &&
+    changes.length === 0 &&
+    staleFiles.length === 0
+  ) {
+    spinner.succeed(`OpenAPI specification ${outputPath} is up to date`);
+    return true;
+  }
+
+  if (
+    missingFiles.length > 0 &&
+    changes.length === 0 &&
+    staleFiles.length === 0
+  ) {
+    spinner.fail(`OpenAPI specification ${outputPath} does not exist`);
+  } else {
+    spinner.fail(
+      `OpenAPI specification ${outputPath} is out of date (${
+        changes.length + staleFiles.length
+      } changes). Run "next-openapi-gen generate" to update it.`
+    );
+  }
+  missingFiles.forEach((filePath) => console.log(`  missing ${filePath}`));
+  // Split files of removed paths or schemas, generate deletes them
+  staleFiles.forEach((filePath) => console.log(`  stale ${filePath}`));
+  changes.forEach((change) => console.log(`  ${change}`));
+
+  return false;
+}
+
+/**
+ * The config file or a .env file its placeholders are resolved from
+ */
+function isConfigChange(changedPath: string, configPath: string): boolean {
+  return (
+    changedPath === configPath ||
+    (path.dirname(changedPath) === process.cwd() &&
+      path.basename(changedPath).startsWith(".env"))
+  );
+}
+
+function isRelevantChange(changedPath: string, configPath: string): boolean {
+  if (isConfigChange(changedPath, configPath)) return true;
+
+  // Removed or renamed directories have no extension
+  return /\.tsx?$/.test(changedPath) || path.extname(changedPath) === "";
+}
+
+function watch(
+  generator: OpenApiGenerator,
+  configPath: string,
+  options: GenerateOptions
+) {
+  const watcher = new FileWatcher(async (changedPaths) => {
+    const relevantPaths = changedPaths.filter((changedPath) =>
+      isRelevantChange(changedPath, configPath)
+    );
+    if (relevantPaths.length === 0) return;
+
+    const spinner = ora("Regenerating OpenAPI specification...\n").start();
+
+    try {
+      if (relevantPaths.some((p) => isConfigChange(p, configPath))) {
+        // Config changed - start from scratch and watch new directories
+        generator = new OpenApiGenerator(await loadConfig(configPath));
+        watchConfigDirs();
+      } else {
+        generator.invalidate(relevantPaths);
+      }
+
+      const outputPath = await writeSpec(generator, options);
+      spinner.succeed(`OpenAPI specification updated at ${outputPath}`);
+    } catch (error) {
+      spinner.fail(`Failed to regenerate specification: ${error.message}`);
+    }
+  });
+
+  const watchConfigDirs = () => {
+    generator.getRouteDirs().forEach((dir) => watcher.watch(dir));
+    watcher.watch(generator.getConfig().schemaDir);
+  };
+
+  watcher.watch(path.dirname(configPath), false);
+  if (path.dirname(configPath) !== process.cwd()) {
+    // .env files
+    watcher.watch(process.cwd(), false);
+  }
+  watchConfigDirs();
+
+  ora().info("Watching for changes... (press Ctrl+C to exit)");
+
+  process.on("SIGINT", () => {
+    watcher.close();
+    process.exit(0);
+  });
+}
+
+export async function generate(options: GenerateOptions = {}) {
+  const configPath = resolveConfigPath(options.config);
+
+  if (options.check) {
+    const spinner = ora("Checking OpenAPI specification...\n").start();
+
+    try {
+      const generator = new OpenApiGenerator(await loadConfig(configPath));
+      if (!checkSpec(generator, options, spinner)) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      spinner.fail(`Failed to check specification: ${error.message}`);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  if (options.output === STDOUT) {
+    logger.redirectToStderr();
+  }
+
+  const spinner = ora("Generating OpenAPI specification...\n").start();
 
-  const apiDocs = generator.generate();
+  try {
+    const generator = new OpenApiGenerator(await loadConfig(configPath));
+    const outputPath = await writeSpec(generator, options);
 
-  // Write api docs
-  const outputFile = path.join(outputDir, config.outputFile);
-  fs.writeFileSync(outputFile, JSON.stringify(apiDocs, null, 2));
+    spinner.succeed(`OpenAPI specification generated at ${outputPath}`);
 
-  spinner.succeed(`OpenAPI specification generated at ${outputFile}`);
+    if (options.watch) {
+      watch(generator, configPath, options);
+    }
+  } catch (error) {
+    spinner.fail(`Failed to generate specification: ${error.message}`);
+    process.exitCode = 1;
+  }
 }
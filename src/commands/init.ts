@@ -6,6 +6,8 @@ import { exec } from "child_process";
 import util from "util";
 
 import openapiTemplate from "../openapi-template.js";
+import { getSpecUrl } from "../lib/utils.js";
+import { isJsonConfig } from "../lib/config-loader.js";
 import { scalarDeps, ScalarUI } from "../components/scalar.js";
 import { swaggerDeps, SwaggerUI } from "../components/swagger.js";
 import { redocDeps, RedocUI } from "../components/redoc.js";
@@ -40,7 +42,7 @@ const getPackageManager = async () => {
   return "npm";
 };
 
-function getDocsPage(ui: string, outputFile: string) {
+function getDocsPage(ui: string, specUrl: string) {
   let DocsComponent = ScalarUI;
 
   if (ui === "swagger") {
@@ -53,7 +55,7 @@ function getDocsPage(ui: string, outputFile: string) {
     DocsComponent = RapidocUI;
   }
 
-  return DocsComponent(outputFile);
+  return DocsComponent(specUrl);
 }
 
 function getDocsPageDependencies(ui: string) {
@@ -74,7 +76,7 @@ function getDocsPageDependencies(ui: string) {
   return deps.join(" ");
 }
 
-async function createDocsPage(ui: string, outputFile: string) {
+async function createDocsPage(ui: string, specUrl: string) {
   const paths = ["app", "api-docs"];
   const srcPath = path.join(process.cwd(), "src");
 
@@ -85,7 +87,7 @@ async function createDocsPage(ui: string, outputFile: string) {
   const docsDir = path.join(process.cwd(), ...paths);
   await fs.promises.mkdir(docsDir, { recursive: true });
 
-  const docsPage = getDocsPage(ui, outputFile);
+  const docsPage = getDocsPage(ui, specUrl);
 
   const componentPath = path.join(docsDir, "page.tsx");
   await fs.promises.writeFile(componentPath, docsPage.trim());
@@ -109,23 +111,52 @@ function extendOpenApiTemplate(spec, options) {
   spec.ui = options.ui ?? spec.ui;
   spec.docsUrl = options.docsUrl ?? spec.docsUrl;
   spec.schemaType = options.schema ?? spec.schemaType;
+  spec.outputDir = options.outputDir ?? spec.outputDir;
+  if (options.specUrl) {
+    spec.specUrl = options.specUrl;
+  }
+}
+
+/**
+ * Name the package is installed under, for the defineConfig import
+ */
+function getPackageName(): string {
+  const packageJsonPath = new URL("../../package.json", import.meta.url);
+  return JSON.parse(fs.readFileSync(packageJsonPath, "utf-8")).name;
+}
+
+/**
+ * Write the template as JSON, or as a module using defineConfig for .ts / .js configs
+ */
+async function writeConfigFile(configPath: string, template) {
+  if (isJsonConfig(configPath)) {
+    await fse.writeJson(configPath, template, { spaces: 2 });
+    return;
+  }
+
+  const config = JSON.stringify(template, null, 2);
+  await fse.outputFile(
+    configPath,
+    `import { defineConfig } from "${getPackageName()}/config";\n\nexport default defineConfig(${config});\n`
+  );
 }
 
 export async function init(options) {
   const { ui } = options;
+  const configFile = options.config ?? "next.openapi.json";
 
   spinner.start();
 
   try {
-    const outputPath = path.join(process.cwd(), "next.openapi.json");
+    const outputPath = path.resolve(configFile);
     const template = { ...openapiTemplate };
 
     extendOpenApiTemplate(template, options);
 
-    await fse.writeJson(outputPath, template, { spaces: 2 });
-    spinner.succeed(`Created OpenAPI template in next.openapi.json`);
+    await writeConfigFile(outputPath, template);
+    spinner.succeed(`Created OpenAPI template in ${configFile}`);
 
-    createDocsPage(ui, template.outputFile);
+    createDocsPage(ui, getSpecUrl(template));
     installDependencies(ui);
   } catch (error) {
     spinner.fail(`Failed to initialize project: ${error.message}`);
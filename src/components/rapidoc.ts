@@ -1,6 +1,6 @@
 export const rapidocDeps = ["rapidoc"];
 
-export function RapidocUI(outputFile: string) {
+export function RapidocUI(specUrl: string) {
   return `
 "use client";
 
@@ -10,7 +10,7 @@ export default function ApiDocsPage() {
   return (
     <section style={{ height: "100vh" }}>
       <rapi-doc
-        spec-url="${outputFile}"
+        spec-url="${specUrl}"
         render-style="read"
         style={{ height: "100vh", width: "100%" }}
       ></rapi-doc>
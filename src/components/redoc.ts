@@ -1,6 +1,6 @@
 export const redocDeps = ["redoc"];
 
-export function RedocUI(outputFile: string) {
+export function RedocUI(specUrl: string) {
   return `
 "use client";
 
@@ -9,7 +9,7 @@ import { RedocStandalone } from "redoc";
 export default async function ApiDocsPage() {
   return (
     <section>
-      <RedocStandalone specUrl="/${outputFile}" />
+      <RedocStandalone specUrl="${specUrl}" />
     </section>
   );
 }
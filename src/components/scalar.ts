@@ -1,6 +1,6 @@
 export const scalarDeps = ["@scalar/api-reference-react", "ajv"];
 
-export function ScalarUI(outputFile: string) {
+export function ScalarUI(specUrl: string) {
   return `
 "use client";
 
@@ -13,7 +13,7 @@ export default function ApiDocsPage() {
     <ApiReferenceReact
       configuration={{
         _integration: "nextjs",
-        url: "/${outputFile}",
+        url: "${specUrl}",
       }}
     />
   );
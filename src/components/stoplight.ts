@@ -1,6 +1,6 @@
 export const stoplightDeps = ["@stoplight/elements"];
 
-export function StoplightUI(outputFile: string) {
+export function StoplightUI(specUrl: string) {
   return `
 "use client";
 
@@ -10,7 +10,7 @@ import "@stoplight/elements/styles.min.css";
 export default function ApiDocsPage() {
   return (
     <section style={{ height: "100vh" }}>
-      <API apiDescriptionUrl="${outputFile}" />
+      <API apiDescriptionUrl="${specUrl}" />
     </section>
   );
 }
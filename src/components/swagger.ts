@@ -4,7 +4,7 @@ export const swaggerDeps = [
   "--legacy-peer-deps", // @temp: swagger-ui-react does not support React 19 now.
 ];
 
-export function SwaggerUI(outputFile: string) {
+export function SwaggerUI(specUrl: string) {
   return `
 import "swagger-ui-react/swagger-ui.css";
 
@@ -18,7 +18,7 @@ const SwaggerUI = dynamic(() => import("swagger-ui-react"), {
 export default async function ApiDocsPage() {
   return (
     <section>
-      <SwaggerUI url="/${outputFile}" />
+      <SwaggerUI url="${specUrl}" />
     </section>
   );
 }
@@ -0,0 +1,18 @@
+import { NextOpenApiConfig } from "./types.js";
+
+export type {
+  NextOpenApiConfig,
+  OpenApiConfig,
+  OpenApiTemplate,
+  ErrorTemplateConfig,
+  ErrorCodeConfig,
+  ResponseSets,
+  ServerConfig,
+} from "./types.js";
+
+/**
+ * Type helper for next.openapi.config.ts, returns the config unchanged
+ */
+export function defineConfig(config: NextOpenApiConfig): NextOpenApiConfig {
+  return config;
+}
@@ -4,6 +4,7 @@ import { Command, Option } from "commander";
 
 import { init } from "./commands/init.js";
 import { generate } from "./commands/generate.js";
+import { diff } from "./commands/diff.js";
 
 const program = new Command();
 
@@ -22,17 +23,48 @@ program
       .default("swagger")
   )
   .option("-u, --docs-url <url>", "Specify the docs URL", "api-docs")
+  .option("--output-dir <dir>", "Specify the output directory of the spec")
+  .option(
+    "--spec-url <url>",
+    "Specify the URL the docs page loads the spec from"
+  )
   .addOption(
     new Option("-s, --schema <schemaType>", "Specify the schema tool")
       .choices(["zod", "typescript"])
       .default("zod")
   )
+  .option(
+    "--config <path>",
+    "Specify the config file to create, e.g. next.openapi.config.ts"
+  )
   .description("Initialize a openapi specification")
   .action(init);
 
 program
   .command("generate")
   .description("Generate a specification based on api routes")
+  .option("-w, --watch", "Regenerate the specification when files change")
+  .option(
+    "-c, --check",
+    "Fail if the existing specification differs from the generated one"
+  )
+  .option(
+    "-o, --output <file>",
+    "Write the specification to this file instead, or to stdout with -"
+  )
+  .option("--config <path>", "Specify the config file")
   .action(generate);
 
+program
+  .command("diff")
+  .argument("[old]", "Previous specification file")
+  .argument("[new]", "New specification file")
+  .option(
+    "-b, --base <ref>",
+    "Regenerate the previous specification at a git ref"
+  )
+  .option("--config <path>", "Specify the config file")
+  .description("Compare two specifications and report breaking changes")
+  .action(diff);
+
 program.parse(process.argv);
@@ -0,0 +1,76 @@
+import fs from "fs";
+import path from "path";
+import { createJiti } from "jiti";
+
+import { applyEnv } from "./env.js";
+import { NextOpenApiConfig } from "../types.js";
+
+// Looked up in the current directory, in this order
+export const CONFIG_FILES = [
+  "next.openapi.config.ts",
+  "next.openapi.config.mts",
+  "next.openapi.config.js",
+  "next.openapi.config.mjs",
+  "next.openapi.ts",
+  "next.openapi.js",
+  "next.openapi.json",
+];
+
+export function isJsonConfig(configPath: string): boolean {
+  return path.extname(configPath) === ".json";
+}
+
+/**
+ * Resolve the config file - the given path, or the first existing default file
+ */
+export function resolveConfigPath(configPath?: string): string {
+  if (configPath) {
+    return path.resolve(configPath);
+  }
+
+  const found = CONFIG_FILES.map((file) => path.resolve(file)).find((file) =>
+    fs.existsSync(file)
+  );
+
+  return found || path.resolve("next.openapi.json");
+}
+
+/**
+ * Load a JSON config, or the default export of a TypeScript / JavaScript config
+ * @param projectDir Directory of the .env files a TS / JS config can read from process.env
+ */
+export async function loadConfig(
+  configPath: string,
+  projectDir = process.cwd()
+): Promise<NextOpenApiConfig> {
+  const configFile = path.relative(process.cwd(), configPath);
+
+  if (!fs.existsSync(configPath)) {
+    throw new Error(
+      `Config file ${configFile} not found. Run "next-openapi-gen init" to create one.`
+    );
+  }
+
+  if (isJsonConfig(configPath)) {
+    return JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  }
+
+  applyEnv(projectDir);
+
+  // Skip the caches so edited configs are picked up in watch mode
+  const jiti = createJiti(import.meta.url, {
+    moduleCache: false,
+    fsCache: false,
+  });
+  const config = await jiti.import<NextOpenApiConfig>(configPath, {
+    default: true,
+  });
+
+  if (!config || typeof config !== "object") {
+    throw new Error(
+      `Config file ${configFile} must export a config object as default`
+    );
+  }
+
+  return config;
+}
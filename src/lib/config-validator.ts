@@ -0,0 +1,472 @@
+import path from "path";
+
+import { guessHttpStatus, OPERATION_ID_PLACEHOLDERS } from "./utils.js";
+
+type ConfigSchema =
+  | { type: "any" }
+  | { type: "string" | "boolean" | "number"; enum?: readonly any[] }
+  | { type: "array"; items?: ConfigSchema }
+  | {
+      type: "object";
+      properties?: Record<string, ConfigSchema>;
+      // Schema of keys not listed in properties, false to reject them
+      additionalProperties?: ConfigSchema | false;
+      required?: string[];
+    };
+
+export type ConfigIssue = {
+  path: string;
+  message: string;
+};
+
+const anyValue: ConfigSchema = { type: "any" };
+const stringValue: ConfigSchema = { type: "string" };
+const anyObject: ConfigSchema = {
+  type: "object",
+  additionalProperties: anyValue,
+};
+
+const stringMap: ConfigSchema = {
+  type: "object",
+  additionalProperties: stringValue,
+};
+
+const errorConfigSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    template: anyValue,
+    codes: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        properties: {
+          description: stringValue,
+          httpStatus: { type: "number" },
+          variables: stringMap,
+        },
+        additionalProperties: false,
+        required: ["description"],
+      },
+    },
+    variables: stringMap,
+  },
+  additionalProperties: false,
+  required: ["template", "codes"],
+};
+
+const stringList: ConfigSchema = { type: "array", items: stringValue };
+
+const serversSchema: ConfigSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: { url: stringValue, description: stringValue },
+    additionalProperties: anyValue,
+    required: ["url"],
+  },
+};
+
+const specSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    outputFile: stringValue,
+    info: anyObject,
+    servers: serversSchema,
+    includeOpenApiRoutes: { type: "boolean" },
+    include: stringList,
+    exclude: stringList,
+    tags: stringList,
+    excludeTags: stringList,
+  },
+  additionalProperties: false,
+  required: ["outputFile"],
+};
+
+const handlerWrapperSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    auth: stringValue,
+    responseSet: stringValue,
+    addResponses: stringValue,
+  },
+  additionalProperties: false,
+};
+
+const configSchema: ConfigSchema = {
+  type: "object",
+  properties: {
+    // OpenAPI document fields, copied to the generated spec
+    $schema: stringValue,
+    openapi: stringValue,
+    info: {
+      type: "object",
+      properties: {
+        title: stringValue,
+        version: stringValue,
+        description: stringValue,
+      },
+      additionalProperties: anyValue,
+      required: ["title", "version"],
+    },
+    servers: serversSchema,
+    basePath: stringValue,
+    components: anyObject,
+    paths: anyObject,
+    tags: { type: "array", items: anyObject },
+    security: { type: "array", items: anyObject },
+    externalDocs: anyObject,
+    // Generator options
+    apiDir: stringValue,
+    schemaDir: stringValue,
+    schemaType: { type: "string", enum: ["typescript", "zod"] },
+    docsUrl: stringValue,
+    ui: {
+      type: "string",
+      enum: ["scalar", "swagger", "redoc", "stoplight", "rapidoc"],
+    },
+    outputFile: stringValue,
+    outputDir: stringValue,
+    outputMode: { type: "string", enum: ["single", "split"] },
+    specUrl: stringValue,
+    includeOpenApiRoutes: { type: "boolean" },
+    defaultResponseSet: stringValue,
+    responseSets: {
+      type: "object",
+      additionalProperties: { type: "array", items: stringValue },
+    },
+    errorConfig: errorConfigSchema,
+    errorDefinitions: anyObject,
+    openapiVersion: { type: "string", enum: ["3.0", "3.1"] },
+    specs: { type: "array", items: specSchema },
+    routeGroupTags: { type: "boolean" },
+    responseSetHeaders: {
+      type: "object",
+      additionalProperties: { type: "object", additionalProperties: anyObject },
+    },
+    handlerWrappers: {
+      type: "object",
+      additionalProperties: handlerWrapperSchema,
+    },
+    operationIdStrategy: stringValue,
+    debug: { type: "boolean" },
+  },
+  additionalProperties: false,
+  required: ["apiDir", "schemaDir"],
+};
+
+export function formatPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+function getValueType(value: any): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+
+  return typeof value;
+}
+
+function getEditDistance(a: string, b: string): number {
+  const distances = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let previous = distances[0];
+    distances[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const current = distances[j];
+      distances[j] = Math.min(
+        distances[j] + 1,
+        distances[j - 1] + 1,
+        previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      previous = current;
+    }
+  }
+
+  return distances[b.length];
+}
+
+/**
+ * Find a known key close enough to be the intended one, e.g. schemaDirr -> schemaDir
+ */
+function getSuggestion(key: string, knownKeys: string[]): string | undefined {
+  const [suggestion] = knownKeys
+    .map((knownKey) => ({
+      knownKey,
+      distance: getEditDistance(key.toLowerCase(), knownKey.toLowerCase()),
+    }))
+    .filter(({ distance }) => distance <= Math.max(2, key.length / 4))
+    .sort((a, b) => a.distance - b.distance);
+
+  return suggestion?.knownKey;
+}
+
+function validateValue(
+  value: any,
+  schema: ConfigSchema,
+  path: string,
+  issues: ConfigIssue[]
+) {
+  if (schema.type === "any" || value === undefined) return;
+
+  const valueType = getValueType(value);
+  if (valueType !== schema.type) {
+    issues.push({
+      path,
+      message: `Expected ${schema.type}, received ${valueType}`,
+    });
+    return;
+  }
+
+  if (schema.type === "array") {
+    if (schema.items) {
+      value.forEach((item: any, index: number) =>
+        validateValue(item, schema.items, formatPath(path, index), issues)
+      );
+    }
+    return;
+  }
+
+  if (schema.type !== "object") {
+    if (schema.enum && !schema.enum.includes(value)) {
+      const received = JSON.stringify(value);
+      const options = schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(", ");
+      issues.push({
+        path,
+        message: `Invalid value ${received}, expected one of ${options}`,
+      });
+    }
+    return;
+  }
+
+  const properties = schema.properties || {};
+
+  (schema.required || []).forEach((key) => {
+    if (value[key] === undefined) {
+      issues.push({
+        path: formatPath(path, key),
+        message: "Missing required option",
+      });
+    }
+  });
+
+  Object.entries(value).forEach(([key, item]) => {
+    const keyPath = formatPath(path, key);
+
+    if (properties[key]) {
+      validateValue(item, properties[key], keyPath, issues);
+    } else if (schema.additionalProperties) {
+      validateValue(item, schema.additionalProperties, keyPath, issues);
+    } else if (!key.startsWith("x-")) {
+      const suggestion = getSuggestion(key, Object.keys(properties));
+      issues.push({
+        path: keyPath,
+        message: suggestion
+          ? `Unknown option, did you mean "${suggestion}"?`
+          : "Unknown option",
+      });
+    }
+  });
+}
+
+/**
+ * Check that response sets only use codes with a response component
+ */
+function validateResponseSets(config: any, issues: ConfigIssue[]) {
+  const {
+    responseSets,
+    defaultResponseSet,
+    responseSetHeaders,
+    handlerWrappers,
+    errorConfig,
+  } = config;
+  const hasResponseSets = getValueType(responseSets) === "object";
+
+  const validateSetNames = (setNames: any, path: string) => {
+    if (typeof setNames !== "string" || setNames === "none") return;
+
+    setNames
+      .split(",")
+      .map((setName) => setName.trim())
+      .filter((setName) => !hasResponseSets || !(setName in responseSets))
+      .forEach((setName) =>
+        issues.push({
+          path,
+          message: `Response set "${setName}" is not defined in responseSets`,
+        })
+      );
+  };
+
+  // Response sets and bare codes are $refs to #/components/responses, which
+  // are the configured ones and the errorConfig codes, by HTTP status
+  const knownCodes = new Set(
+    Object.keys(
+      getValueType(config.components?.responses) === "object"
+        ? config.components.responses
+        : {}
+    )
+  );
+  if (getValueType(errorConfig?.codes) === "object") {
+    Object.entries(errorConfig.codes).forEach(
+      ([errorCode, codeConfig]: [string, any]) =>
+        knownCodes.add(
+          String(codeConfig?.httpStatus || guessHttpStatus(errorCode))
+        )
+    );
+  }
+
+  const validateCode = (code: any, path: string) => {
+    if (typeof code === "string" && !knownCodes.has(code)) {
+      issues.push({
+        path,
+        message: `Response code "${code}" is not defined in components.responses or errorConfig.codes`,
+      });
+    }
+  };
+
+  if (hasResponseSets) {
+    Object.entries(responseSets).forEach(([setName, setCodes]) => {
+      if (!Array.isArray(setCodes)) return;
+
+      setCodes.forEach((code, index) =>
+        validateCode(
+          code,
+          formatPath(formatPath("$.responseSets", setName), index)
+        )
+      );
+    });
+  }
+
+  validateSetNames(defaultResponseSet, "$.defaultResponseSet");
+  if (getValueType(responseSetHeaders) === "object") {
+    Object.keys(responseSetHeaders).forEach((setName) =>
+      validateSetNames(setName, formatPath("$.responseSetHeaders", setName))
+    );
+  }
+  if (getValueType(handlerWrappers) === "object") {
+    Object.entries(handlerWrappers).forEach(
+      ([name, wrapper]: [string, any]) => {
+        const wrapperPath = formatPath("$.handlerWrappers", name);
+        validateSetNames(
+          wrapper?.responseSet,
+          formatPath(wrapperPath, "responseSet")
+        );
+
+        // "429" is a $ref, "409:ConflictResponse" a schema
+        if (typeof wrapper?.addResponses === "string") {
+          wrapper.addResponses
+            .split(",")
+            .map((response: string) => response.trim())
+            .filter((response: string) => !response.includes(":"))
+            .forEach((code: string) =>
+              validateCode(code, formatPath(wrapperPath, "addResponses"))
+            );
+        }
+      }
+    );
+  }
+}
+
+/**
+ * Check that every document has its own output file
+ */
+function validateOutputFiles(config: any, issues: ConfigIssue[]) {
+  const { specs, outputFile, outputMode } = config;
+
+  if (!Array.isArray(specs)) {
+    if (outputFile === undefined) {
+      issues.push({
+        path: "$.outputFile",
+        message: "Missing required option",
+      });
+    }
+    return;
+  }
+
+  const outputFiles: string[] = [];
+  specs.forEach((spec, index) => {
+    if (typeof spec?.outputFile !== "string") return;
+
+    // Split files are written next to the root document
+    const target =
+      outputMode === "split"
+        ? path.posix.dirname(spec.outputFile)
+        : spec.outputFile;
+
+    if (outputFiles.includes(target)) {
+      issues.push({
+        path: formatPath(formatPath("$.specs", index), "outputFile"),
+        message:
+          outputMode === "split"
+            ? "Specs in split output mode must be written to separate directories"
+            : `Output file "${spec.outputFile}" is used by another spec`,
+      });
+    }
+    outputFiles.push(target);
+  });
+}
+
+/**
+ * Check that operationIdStrategy is a known strategy or a template
+ */
+function validateOperationIdStrategy(config: any, issues: ConfigIssue[]) {
+  const { operationIdStrategy } = config;
+  if (
+    typeof operationIdStrategy !== "string" ||
+    ["method-path", "camelCase"].includes(operationIdStrategy)
+  ) {
+    return;
+  }
+
+  const placeholders = [...operationIdStrategy.matchAll(/\{(\w+)\}/g)].map(
+    ([, name]) => name
+  );
+  const unknown = placeholders.filter(
+    (name) => !OPERATION_ID_PLACEHOLDERS.includes(name)
+  );
+
+  if (placeholders.length === 0 || unknown.length > 0) {
+    const templatePlaceholders = OPERATION_ID_PLACEHOLDERS.map(
+      (name) => `{${name}}`
+    ).join(", ");
+    issues.push({
+      path: "$.operationIdStrategy",
+      message: `Expected "method-path", "camelCase" or a template of ${templatePlaceholders}`,
+    });
+  }
+}
+
+/**
+ * Validate a loaded config file
+ * @returns Issues found, with the JSON path of the invalid value
+ */
+export function validateConfig(config: any): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  validateValue(config, configSchema, "$", issues);
+  validateResponseSets(config, issues);
+  validateOutputFiles(config, issues);
+  validateOperationIdStrategy(config, issues);
+
+  return issues;
+}
+
+export class ConfigValidationError extends Error {
+  issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    super(
+      `Invalid configuration:\n${issues
+        .map((issue) => `  ${issue.path}: ${issue.message}`)
+        .join("\n")}`
+    );
+    this.name = "ConfigValidationError";
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,178 @@
+import fs from "fs";
+import path from "path";
+
+import { formatPath } from "./config-validator.js";
+
+// KEY=value, KEY="quoted value" or export KEY=value, with optional comments
+const ENV_LINE =
+  /^\s*(?:export\s+)?([\w.-]+)\s*=\s*('(?:\\'|[^'])*'|"(?:\\"|[^"])*"|`(?:\\`|[^`])*`|[^#\r\n]*)?\s*(?:#.*)?$/gm;
+
+const PLACEHOLDER = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Get the .env files in the order Next.js loads them, highest priority first
+ */
+export function getEnvFiles(mode: string): string[] {
+  return [
+    `.env.${mode}.local`,
+    // .env.local is not loaded in tests, so they run the same everywhere
+    mode !== "test" && ".env.local",
+    `.env.${mode}`,
+    ".env",
+  ].filter(Boolean);
+}
+
+export function parseEnvFile(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  const lines = content.replace(/\r\n?/g, "\n");
+
+  for (const [, key, rawValue = ""] of lines.matchAll(ENV_LINE)) {
+    let value = rawValue.trim();
+    const quote = value[0];
+
+    if (
+      (quote === '"' || quote === "'" || quote === "`") &&
+      value.endsWith(quote)
+    ) {
+      value = value.slice(1, -1);
+      if (quote === '"') {
+        value = value.replace(/\\n/g, "\n").replace(/\\r/g, "\r");
+      }
+    }
+
+    env[key] = value;
+  }
+
+  return env;
+}
+
+/**
+ * Load the environment like Next.js does - variables already set in process.env
+ * win over .env files, which can reference other variables with ${NAME}
+ */
+export function loadEnv(
+  dir: string,
+  mode = process.env.NODE_ENV || "development"
+): Record<string, string> {
+  const fileEnv: Record<string, string> = {};
+
+  getEnvFiles(mode)
+    .reverse()
+    .forEach((file) => {
+      const filePath = path.join(dir, file);
+      if (fs.existsSync(filePath)) {
+        Object.assign(
+          fileEnv,
+          parseEnvFile(fs.readFileSync(filePath, "utf-8"))
+        );
+      }
+    });
+
+  const env: Record<string, string> = { ...fileEnv, ...process.env };
+
+  Object.keys(fileEnv)
+    .filter((key) => process.env[key] === undefined)
+    .forEach((key) => {
+      env[key] = fileEnv[key].replace(
+        PLACEHOLDER,
+        (_, name, defaultValue) => env[name] ?? defaultValue ?? ""
+      );
+    });
+
+  return env;
+}
+
+// The environment before any .env file was applied, restored on every reload
+const initialEnv = { ...process.env };
+
+/**
+ * Load the .env files into process.env, for TS / JS configs reading
+ * process.env. Variables set outside the files are not overridden and values
+ * applied before, e.g. from an edited .env in watch mode, are replaced.
+ */
+export function applyEnv(dir: string) {
+  Object.keys(process.env)
+    .filter((key) => !(key in initialEnv))
+    .forEach((key) => delete process.env[key]);
+  Object.assign(process.env, initialEnv);
+
+  Object.assign(process.env, loadEnv(dir));
+}
+
+/**
+ * Replace ${NAME} and ${NAME:-default} placeholders in every string of a value
+ * @throws When a variable without default is not defined
+ */
+export function interpolateEnv<T>(
+  value: T,
+  env: Record<string, string>,
+  valuePath = "$"
+): T {
+  const missing: string[] = [];
+
+  const interpolate = (item: any, itemPath: string): any => {
+    if (typeof item === "string") {
+      return item.replace(PLACEHOLDER, (placeholder, name, defaultValue) => {
+        const resolved = env[name] ?? defaultValue;
+        if (resolved === undefined) {
+          missing.push(`  ${itemPath}: ${name} is not defined`);
+          return placeholder;
+        }
+        return resolved;
+      });
+    }
+
+    if (Array.isArray(item)) {
+      return item.map((entry, index) =>
+        interpolate(entry, formatPath(itemPath, index))
+      );
+    }
+
+    if (item && typeof item === "object") {
+      return Object.fromEntries(
+        Object.entries(item).map(([key, entry]) => [
+          key,
+          interpolate(entry, formatPath(itemPath, key)),
+        ])
+      );
+    }
+
+    return item;
+  };
+
+  const result = interpolate(value, valuePath);
+
+  if (missing.length > 0) {
+    throw new Error(`Missing environment variables:\n${missing.join("\n")}`);
+  }
+
+  return result;
+}
+
+/**
+ * Resolve the placeholders of the document fields that differ between
+ * environments: info, servers and the security scheme URLs
+ */
+export function interpolateConfigEnv<T extends Record<string, any>>(
+  config: T,
+  env: Record<string, string>
+): T {
+  const { info, servers, components } = config;
+
+  return {
+    ...config,
+    ...(info && { info: interpolateEnv(info, env, "$.info") }),
+    ...(servers && { servers: interpolateEnv(servers, env, "$.servers") }),
+    ...(components?.securitySchemes && {
+      components: {
+        ...components,
+        securitySchemes: interpolateEnv(
+          components.securitySchemes,
+          env,
+          "$.components.securitySchemes"
+        ),
+      },
+    }),
+  };
+}
@@ -0,0 +1,94 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+
+import { logger } from "./logger.js";
+
+const EXAMPLE_FILE = /\.(json|ya?ml)$/;
+const RELATIVE_PATH = /^\.{1,2}\//;
+
+export type Example = {
+  name: string;
+  value: any;
+};
+
+/**
+ * Resolve an example file relative to the route file, or to the project root
+ */
+function resolveExampleFile(filePath: string, baseDir: string): string {
+  const fromRoute = path.resolve(baseDir, filePath);
+  return fs.existsSync(fromRoute) ? fromRoute : path.resolve(filePath);
+}
+
+/**
+ * Load an example given as inline JSON or as the path of a JSON / YAML file.
+ * Other values are kept as strings, e.g. @paramExample status=active or
+ * @paramExample file=report.json when there is no such file
+ */
+export function loadExample(
+  rawValue: string,
+  baseDir: string
+): Example | undefined {
+  const examplePath = EXAMPLE_FILE.test(rawValue)
+    ? resolveExampleFile(rawValue, baseDir)
+    : undefined;
+
+  // ./ and ../ always point to a file, other values only if it exists
+  if (
+    RELATIVE_PATH.test(rawValue) &&
+    !(examplePath && fs.existsSync(examplePath))
+  ) {
+    logger.warn(`Example file ${rawValue} not found`);
+    return;
+  }
+
+  if (examplePath && fs.existsSync(examplePath)) {
+    const content = fs.readFileSync(examplePath, "utf-8");
+    try {
+      return {
+        name: path.basename(examplePath).replace(EXAMPLE_FILE, ""),
+        value: examplePath.endsWith(".json")
+          ? JSON.parse(content)
+          : YAML.parse(content),
+      };
+    } catch (error) {
+      logger.warn(`Invalid example file ${rawValue}: ${error.message}`);
+      return;
+    }
+  }
+
+  try {
+    return { name: "example", value: JSON.parse(rawValue) };
+  } catch (error) {
+    // Objects and arrays must be valid JSON
+    if (/^[{[]/.test(rawValue)) {
+      logger.warn(`Invalid example ${rawValue}: ${error.message}`);
+      return;
+    }
+
+    return { name: "example", value: rawValue };
+  }
+}
+
+/**
+ * Build the examples map of a media type object, with unique names
+ */
+export function createExamples(
+  rawValues: string[],
+  baseDir: string
+): Record<string, { value: any }> {
+  const examples: Record<string, { value: any }> = {};
+
+  rawValues
+    .map((rawValue) => loadExample(rawValue, baseDir))
+    .filter(Boolean)
+    .forEach(({ name, value }) => {
+      let exampleName = name;
+      for (let i = 2; exampleName in examples; i++) {
+        exampleName = `${name}${i}`;
+      }
+      examples[exampleName] = { value };
+    });
+
+  return examples;
+}
@@ -0,0 +1,120 @@
+import * as t from "@babel/types";
+
+import { DataTypes, OpenApiConfig } from "../types.js";
+
+export type LocalHandler = {
+  node: t.Node;
+  comments: t.Comment[];
+};
+
+/**
+ * Find the top-level function or variable declared with the given name
+ */
+export function findLocalHandler(
+  ast: t.File,
+  name: string
+): LocalHandler | undefined {
+  for (const statement of ast.program.body) {
+    const declaration = t.isExportNamedDeclaration(statement)
+      ? statement.declaration
+      : statement;
+    const comments = statement.leadingComments || [];
+
+    if (t.isFunctionDeclaration(declaration) && declaration.id?.name === name) {
+      return { node: declaration, comments };
+    }
+
+    if (t.isVariableDeclaration(declaration)) {
+      const declarator = declaration.declarations.find(
+        (decl) => t.isIdentifier(decl.id) && decl.id.name === name
+      );
+      if (declarator?.init) {
+        return { node: declarator.init, comments };
+      }
+    }
+  }
+}
+
+function getCalleeName(callee: t.Node): string | undefined {
+  if (t.isIdentifier(callee)) return callee.name;
+
+  // auth.withAuth(handler)
+  if (t.isMemberExpression(callee) && t.isIdentifier(callee.property)) {
+    return callee.property.name;
+  }
+
+  // withRole("admin")(handler)
+  if (t.isCallExpression(callee)) return getCalleeName(callee.callee);
+}
+
+/**
+ * Get the names of the functions wrapping a handler, outermost first, e.g.
+ * withAuth(withRateLimit(async (req) => ...)) -> ["withAuth", "withRateLimit"]
+ */
+export function getWrapperNames(
+  ast: t.File,
+  node: t.Node,
+  visited = new Set<string>()
+): string[] {
+  if (t.isCallExpression(node)) {
+    const name = getCalleeName(node.callee);
+    const innerNames = node.arguments.flatMap((arg) =>
+      getWrapperNames(ast, arg, visited)
+    );
+    return name ? [name, ...innerNames] : innerNames;
+  }
+
+  // const handler = withAuth(...); export const GET = withRateLimit(handler)
+  if (t.isIdentifier(node) && !visited.has(node.name)) {
+    visited.add(node.name);
+    const local = findLocalHandler(ast, node.name);
+    return local ? getWrapperNames(ast, local.node, visited) : [];
+  }
+
+  if (t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node)) {
+    return getWrapperNames(ast, node.expression, visited);
+  }
+
+  return [];
+}
+
+/**
+ * Add what the configured handlerWrappers imply to the JSDoc data types.
+ * Tags in the JSDoc win, response sets and @add responses are combined.
+ */
+export function applyHandlerWrappers(
+  dataTypes: DataTypes,
+  wrapperNames: string[],
+  config: OpenApiConfig
+): DataTypes {
+  const wrappers = wrapperNames
+    .map((name) => config.handlerWrappers?.[name])
+    .filter(Boolean);
+
+  if (wrappers.length === 0) return dataTypes;
+
+  const result = { ...dataTypes };
+
+  result.auth = dataTypes.auth || wrappers.find(({ auth }) => auth)?.auth;
+
+  const wrapperSets = wrappers
+    .map(({ responseSet }) => responseSet)
+    .filter(Boolean);
+  if (wrapperSets.length > 0) {
+    const baseSet = dataTypes.responseSet || config.defaultResponseSet;
+    const setNames = [
+      ...(baseSet && baseSet !== "none" ? [baseSet] : []),
+      ...wrapperSets,
+    ];
+    result.responseSet = [...new Set(setNames)].join(",");
+  }
+
+  result.addResponses = [
+    dataTypes.addResponses,
+    ...wrappers.map(({ addResponses }) => addResponses),
+  ]
+    .filter(Boolean)
+    .join(",");
+
+  return result;
+}
@@ -2,11 +2,19 @@ import { OpenApiConfig } from "../types.js";
 
 class Logger {
   private config: OpenApiConfig | null = null;
+  private useStderr = false;
 
   init(config: OpenApiConfig) {
     this.config = config;
   }
 
+  /**
+   * Keep stdout clean, e.g. when the specification itself is written there
+   */
+  redirectToStderr() {
+    this.useStderr = true;
+  }
+
   private getCallerInfo(): string {
     const stack = new Error().stack;
     if (!stack) return 'Unknown';
@@ -26,7 +34,7 @@ class Logger {
 
   log(message: string, ...args: any[]) {
     const source = this.getCallerInfo();
-    console.log(`[${source}] ${message}`, ...args);
+    this.print(`[${source}] ${message}`, ...args);
   }
 
   warn(message: string, ...args: any[]) {
@@ -42,7 +50,15 @@ class Logger {
   debug(message: string, ...args: any[]) {
     if (this.config?.debug) {
       const source = this.getCallerInfo();
-      console.log(`[${source}] ${message}`, ...args);
+      this.print(`[${source}] ${message}`, ...args);
+    }
+  }
+
+  private print(message: string, ...args: any[]) {
+    if (this.useStderr) {
+      console.error(message, ...args);
+    } else {
+      console.log(message, ...args);
     }
   }
 }
@@ -0,0 +1,191 @@
+import { OpenAPIDefinition } from "../types.js";
+
+const SCHEMA_LIST_KEYS = ["oneOf", "anyOf", "allOf", "prefixItems"];
+
+/**
+ * Convert a single OpenAPI 3.0 schema (and its sub-schemas) to OpenAPI 3.1 / JSON Schema
+ */
+export function convertSchemaTo31(
+  schema: OpenAPIDefinition
+): OpenAPIDefinition {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    return schema;
+  }
+
+  let result: OpenAPIDefinition = { ...schema };
+
+  // Sub-schemas first
+  if (result.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(result.properties).map(([name, property]) => [
+        name,
+        convertSchemaTo31(property),
+      ])
+    );
+  }
+  if (result.items) {
+    result.items = convertSchemaTo31(result.items);
+  }
+  if (
+    result.additionalProperties &&
+    typeof result.additionalProperties === "object"
+  ) {
+    result.additionalProperties = convertSchemaTo31(
+      result.additionalProperties
+    );
+  }
+  if (result.not) {
+    result.not = convertSchemaTo31(result.not);
+  }
+  SCHEMA_LIST_KEYS.forEach((key) => {
+    if (Array.isArray(result[key])) {
+      result[key] = result[key].map(convertSchemaTo31);
+    }
+  });
+
+  // $ref siblings are allowed, so the allOf wrapper is not needed anymore
+  if (
+    Array.isArray(result.allOf) &&
+    result.allOf.length === 1 &&
+    result.allOf[0].$ref &&
+    Object.keys(result.allOf[0]).length === 1 &&
+    !result.$ref
+  ) {
+    const { allOf, ...rest } = result;
+    result = { $ref: allOf[0].$ref, ...rest };
+  }
+
+  // Boolean exclusive bounds become numeric ones
+  if (result.exclusiveMinimum === true && typeof result.minimum === "number") {
+    result.exclusiveMinimum = result.minimum;
+    delete result.minimum;
+  } else if (typeof result.exclusiveMinimum === "boolean") {
+    delete result.exclusiveMinimum;
+  }
+  if (result.exclusiveMaximum === true && typeof result.maximum === "number") {
+    result.exclusiveMaximum = result.maximum;
+    delete result.maximum;
+  } else if (typeof result.exclusiveMaximum === "boolean") {
+    delete result.exclusiveMaximum;
+  }
+
+  if ("example" in result) {
+    const { example, ...rest } = result;
+    result = { ...rest, examples: [example] };
+  }
+
+  if ("nullable" in result) {
+    const { nullable, ...rest } = result;
+    result = nullable ? makeNullable(rest) : rest;
+  }
+
+  return result;
+}
+
+/**
+ * Express nullable: true with JSON Schema "null" type
+ */
+function makeNullable(schema: OpenAPIDefinition): OpenAPIDefinition {
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+    // JSON Schema allows a list of types
+    const result: Record<string, any> = {
+      ...schema,
+      type: types.includes("null") ? types : [...types, "null"],
+    };
+
+    if (Array.isArray(result.enum) && !result.enum.includes(null)) {
+      result.enum = [...result.enum, null];
+    }
+
+    return result;
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    return { ...schema, oneOf: [...schema.oneOf, { type: "null" }] };
+  }
+
+  // $ref, allOf or an empty schema - wrap it
+  const { description, deprecated, ...rest } = schema;
+  const result: OpenAPIDefinition = {
+    anyOf: [rest, { type: "null" }],
+  };
+  if (description) result.description = description;
+  if (deprecated) result.deprecated = deprecated;
+
+  return result;
+}
+
+function convertContentTo31(content: Record<string, any>) {
+  Object.values(content || {}).forEach((mediaType: any) => {
+    if (mediaType?.schema) {
+      mediaType.schema = convertSchemaTo31(mediaType.schema);
+    }
+  });
+}
+
+function convertHeadersTo31(headers: Record<string, any>) {
+  Object.values(headers || {}).forEach((header: any) => {
+    if (header?.schema) {
+      header.schema = convertSchemaTo31(header.schema);
+    }
+  });
+}
+
+function convertResponsesTo31(responses: Record<string, any>) {
+  Object.values(responses || {}).forEach((response: any) => {
+    convertContentTo31(response?.content);
+    convertHeadersTo31(response?.headers);
+  });
+}
+
+function convertParametersTo31(parameters: any[]) {
+  (parameters || []).forEach((parameter) => {
+    if (parameter?.schema) {
+      parameter.schema = convertSchemaTo31(parameter.schema);
+    }
+  });
+}
+
+/**
+ * Convert a generated OpenAPI 3.0 document to OpenAPI 3.1
+ */
+export function convertSpecTo31(spec: any) {
+  const newSpec = JSON.parse(JSON.stringify(spec));
+
+  newSpec.openapi = "3.1.0";
+
+  Object.values(newSpec.paths || {}).forEach((pathItem: any) => {
+    convertParametersTo31(pathItem.parameters);
+
+    Object.values(pathItem).forEach((operation: any) => {
+      if (
+        !operation ||
+        typeof operation !== "object" ||
+        Array.isArray(operation)
+      ) {
+        return;
+      }
+
+      convertParametersTo31(operation.parameters);
+      convertContentTo31(operation.requestBody?.content);
+      convertResponsesTo31(operation.responses);
+    });
+  });
+
+  const components = newSpec.components || {};
+
+  Object.entries(components.schemas || {}).forEach(([name, schema]) => {
+    components.schemas[name] = convertSchemaTo31(schema);
+  });
+  convertResponsesTo31(components.responses);
+  convertParametersTo31(Object.values(components.parameters || {}));
+  convertHeadersTo31(components.headers);
+  Object.values(components.requestBodies || {}).forEach((requestBody: any) =>
+    convertContentTo31(requestBody?.content)
+  );
+
+  return newSpec;
+}
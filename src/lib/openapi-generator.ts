@@ -2,35 +2,53 @@ import path from "path";
 import fs from "fs";
 
 import { RouteProcessor } from "./route-processor.js";
-import { cleanSpec } from "./utils.js";
+import { cleanSpec, guessHttpStatus } from "./utils.js";
+import { convertSpecTo31 } from "./openapi-31.js";
+import { filterSpec } from "./spec-filter.js";
+import { interpolateConfigEnv, loadEnv } from "./env.js";
+import { ConfigValidationError, validateConfig } from "./config-validator.js";
 import {
   ErrorDefinition,
   ErrorTemplateConfig,
+  NextOpenApiConfig,
   OpenApiConfig,
   OpenApiTemplate,
+  SpecDocument,
 } from "../types.js";
 import { logger } from "./logger.js";
 
 export class OpenApiGenerator {
   private config: OpenApiConfig;
-  private template: OpenApiTemplate;
+  private template: NextOpenApiConfig;
   private routeProcessor: RouteProcessor;
 
-  constructor() {
-    const templatePath = path.resolve("./next.openapi.json");
+  /**
+   * @param config Contents of the config file, see loadConfig()
+   * @param projectDir Directory of the .env files
+   */
+  constructor(config: NextOpenApiConfig, projectDir = process.cwd()) {
+    // Resolve ${ENV} placeholders, e.g. in servers[].url
+    const template = interpolateConfigEnv(config, loadEnv(projectDir));
+
+    const issues = validateConfig(template);
+    if (issues.length > 0) {
+      throw new ConfigValidationError(issues);
+    }
 
-    this.template = JSON.parse(fs.readFileSync(templatePath, "utf-8"));
+    this.template = template;
     this.config = this.getConfig();
 
-    this.routeProcessor = new RouteProcessor(this.config);
+    this.routeProcessor = new RouteProcessor({
+      ...this.config,
+      includeOpenApiRoutes: this.onlyOpenApiRoutes(),
+    });
 
     // Initialize logger
     logger.init(this.config);
   }
 
   public getConfig() {
-    // @ts-ignore
-    const { apiDir, schemaDir, docsUrl, ui, outputFile, includeOpenApiRoutes, schemaType = "typescript", defaultResponseSet, responseSets, errorConfig, debug } = this.template;
+    const { apiDir, schemaDir, docsUrl, ui, outputFile, outputDir = "./public", outputMode = "single", specUrl, includeOpenApiRoutes, schemaType = "typescript", defaultResponseSet, responseSets, errorConfig, openapiVersion = "3.0", specs, routeGroupTags, responseSetHeaders, handlerWrappers, operationIdStrategy, debug } = this.template;
 
     return {
       apiDir,
@@ -38,70 +56,125 @@ export class OpenApiGenerator {
       docsUrl,
       ui,
       outputFile,
+      outputDir,
+      outputMode,
+      specUrl,
       includeOpenApiRoutes,
       schemaType,
       defaultResponseSet,
       responseSets,
       errorConfig,
+      openapiVersion,
+      specs,
+      routeGroupTags,
+      responseSetHeaders,
+      handlerWrappers,
+      operationIdStrategy,
       debug,
     };
   }
 
-  public generate() {
-    logger.log("Starting OpenAPI generation...");
+  /**
+   * Whether routes without @openapi can be skipped - only if no document needs them
+   */
+  private onlyOpenApiRoutes(): boolean {
+    const { specs, includeOpenApiRoutes } = this.config;
 
-    const { apiDir } = this.config;
+    if (!specs) {
+      return !!includeOpenApiRoutes;
+    }
+
+    return specs.every(
+      (spec) => spec.includeOpenApiRoutes ?? includeOpenApiRoutes
+    );
+  }
+
+  /**
+   * Get the directories to scan for routes - apiDir, and the app router or
+   * pages router API directory next to it
+   */
+  public getRouteDirs(): string[] {
+    const apiDir = path.resolve(this.config.apiDir);
+    const dirs = [apiDir];
 
     // Check if app router structure exists
-    let appRouterApiDir = "";
-    if (fs.existsSync(path.join(path.dirname(apiDir), "app", "api"))) {
-      appRouterApiDir = path.join(path.dirname(apiDir), "app", "api");
+    const appRouterApiDir = path.join(path.dirname(apiDir), "app", "api");
+    if (fs.existsSync(appRouterApiDir)) {
       logger.debug(`Found app router API directory at ${appRouterApiDir}`);
+      dirs.push(appRouterApiDir);
     }
 
-    // Scan pages router routes
-    this.routeProcessor.scanApiRoutes(apiDir);
-
-    // If app router directory exists, scan it as well
-    if (appRouterApiDir) {
-      this.routeProcessor.scanApiRoutes(appRouterApiDir);
+    // Check if pages router structure exists, e.g. src/pages/api for src/app/api
+    const pagesApiDir = path.join(
+      path.dirname(path.dirname(apiDir)),
+      "pages",
+      "api"
+    );
+    if (fs.existsSync(pagesApiDir)) {
+      logger.debug(`Found pages router API directory at ${pagesApiDir}`);
+      dirs.push(pagesApiDir);
     }
 
-    this.template.paths = this.routeProcessor.getSwaggerPaths();
+    return [...new Set(dirs)];
+  }
+
+  /**
+   * Mark changed files so the next generate() only re-processes what they affect
+   */
+  public invalidate(filePaths: string[]) {
+    filePaths.forEach((filePath) =>
+      this.routeProcessor.invalidateFile(path.resolve(filePath))
+    );
+  }
+
+  public generate() {
+    logger.log("Starting OpenAPI generation...");
+
+    // Work on a copy, so the generator can be run again (e.g. in watch mode)
+    const template: OpenApiTemplate = JSON.parse(JSON.stringify(this.template));
+
+    this.getRouteDirs().forEach((dir) =>
+      this.routeProcessor.scanApiRoutes(dir)
+    );
+
+    template.paths = this.routeProcessor.getSwaggerPaths();
 
     // Add server URL for examples if not already defined
-    if (!this.template.servers || this.template.servers.length === 0) {
-      this.template.servers = [
+    if (!template.servers || template.servers.length === 0) {
+      template.servers = [
         {
-          url: this.template.basePath || "",
+          url: template.basePath || "",
           description: "API server",
         },
       ];
     }
 
     // Ensure there's a components section if not already defined
-    if (!this.template.components) {
-      this.template.components = {};
+    if (!template.components) {
+      template.components = {};
     }
 
     // Add schemas section if not already defined
-    if (!this.template.components.schemas) {
-      this.template.components.schemas = {};
+    if (!template.components.schemas) {
+      template.components.schemas = {};
     }
 
     // Generate error responses using errorConfig or manual definitions
-    if (!this.template.components.responses) {
-      this.template.components.responses = {};
+    if (!template.components.responses) {
+      template.components.responses = {};
     }
 
     const errorConfig = this.config.errorConfig;
     if (errorConfig) {
-      this.generateErrorResponsesFromConfig(errorConfig);
+      Object.assign(
+        template.components.responses,
+        this.generateErrorResponsesFromConfig(errorConfig)
+      );
     } else if (this.config.errorDefinitions) {
       // Use manual definitions (existing logic - if exists)
       Object.entries(this.config.errorDefinitions).forEach(
         ([code, errorDef]) => {
-          this.template.components.responses[code] =
+          template.components.responses[code] =
             this.createErrorResponseComponent(code, errorDef);
         }
       );
@@ -112,27 +185,59 @@ export class OpenApiGenerator {
       .getSchemaProcessor()
       .getDefinedSchemas();
     if (definedSchemas && Object.keys(definedSchemas).length > 0) {
-      this.template.components.schemas = {
-        ...this.template.components.schemas,
+      template.components.schemas = {
+        ...template.components.schemas,
         ...definedSchemas,
       };
     }
 
-    const openapiSpec = cleanSpec(this.template);
+    let openapiSpec = cleanSpec(template);
+
+    if (this.config.openapiVersion === "3.1") {
+      openapiSpec = convertSpecTo31(openapiSpec);
+    }
 
     logger.log("OpenAPI generation completed");
 
     return openapiSpec;
   }
 
+  /**
+   * Generate every document to write - one per `specs` entry, or the whole
+   * specification if there are none
+   */
+  public generateAll(): SpecDocument[] {
+    const { specs, outputFile, includeOpenApiRoutes } = this.config;
+    const spec = this.generate();
+
+    if (!specs) {
+      return [{ outputFile, spec }];
+    }
+
+    const keepSchemas = Object.keys(this.template.components?.schemas || {});
+
+    return specs.map((specConfig) => ({
+      outputFile: specConfig.outputFile,
+      spec: filterSpec(
+        spec,
+        specConfig,
+        specConfig.includeOpenApiRoutes ?? !!includeOpenApiRoutes,
+        (routePath, method) =>
+          this.routeProcessor.isOpenApiOperation(routePath, method),
+        keepSchemas
+      ),
+    }));
+  }
+
   private generateErrorResponsesFromConfig(
     errorConfig: ErrorTemplateConfig
-  ): void {
+  ): Record<string, any> {
     const { template, codes, variables: globalVars = {} } = errorConfig;
+    const responses: Record<string, any> = {};
 
     Object.entries(codes).forEach(([errorCode, config]) => {
       const httpStatus = (
-        config.httpStatus || this.guessHttpStatus(errorCode)
+        config.httpStatus || guessHttpStatus(errorCode)
       ).toString();
 
       // Merge variables: global + per-code + built-in
@@ -146,7 +251,7 @@ export class OpenApiGenerator {
 
       const processedSchema = this.processTemplate(template, allVariables);
 
-      this.template.components.responses[httpStatus] = {
+      responses[httpStatus] = {
         description: config.description,
         content: {
           "application/json": {
@@ -155,6 +260,8 @@ export class OpenApiGenerator {
         },
       };
     });
+
+    return responses;
   }
 
   private processTemplate(
@@ -171,38 +278,6 @@ export class OpenApiGenerator {
     return JSON.parse(result);
   }
 
-  private guessHttpStatus(errorCode: string): number {
-    const numericCode = parseInt(errorCode);
-    if (numericCode >= 100 && numericCode < 600) {
-      return numericCode;
-    }
-
-    const statusMap = {
-      bad: 400,
-      invalid: 400,
-      validation: 422,
-      unauthorized: 401,
-      auth: 401,
-      forbidden: 403,
-      permission: 403,
-      not_found: 404,
-      missing: 404,
-      conflict: 409,
-      duplicate: 409,
-      rate_limit: 429,
-      too_many: 429,
-      server: 500,
-      internal: 500,
-    };
-
-    for (const [key, status] of Object.entries(statusMap)) {
-      if (errorCode.toLowerCase().includes(key)) {
-        return status;
-      }
-    }
-    return 500;
-  }
-
   private createErrorResponseComponent(
     code: string,
     errorDef: ErrorDefinition
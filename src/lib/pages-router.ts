@@ -0,0 +1,267 @@
+import * as t from "@babel/types";
+import traverse from "@babel/traverse";
+
+import { DataTypes } from "../types.js";
+import { parseJSDocComments } from "./utils.js";
+import { logger } from "./logger.js";
+
+export type PagesApiOperation = {
+  method: string;
+  dataTypes: DataTypes;
+};
+
+type HandlerFunction =
+  | t.FunctionDeclaration
+  | t.FunctionExpression
+  | t.ArrowFunctionExpression;
+
+function isHandlerFunction(node: t.Node): node is HandlerFunction {
+  return (
+    t.isFunctionDeclaration(node) ||
+    t.isFunctionExpression(node) ||
+    t.isArrowFunctionExpression(node)
+  );
+}
+
+function isJSDocComment(comment: t.Comment): boolean {
+  return comment.type === "CommentBlock" && comment.value.startsWith("*");
+}
+
+function getJSDocComments(node: t.Node): t.Comment[] {
+  return (node?.leadingComments || []).filter(isJSDocComment);
+}
+
+/**
+ * Find the top-level function declared with the given name
+ */
+function findFunction(
+  ast: t.File,
+  name: string
+): { handler: HandlerFunction; comments: t.Comment[] } | undefined {
+  for (const statement of ast.program.body) {
+    if (t.isFunctionDeclaration(statement) && statement.id?.name === name) {
+      return { handler: statement, comments: [] };
+    }
+
+    if (t.isVariableDeclaration(statement)) {
+      const declarator = statement.declarations.find(
+        (decl) => t.isIdentifier(decl.id) && decl.id.name === name
+      );
+      if (declarator?.init) {
+        const found = resolveHandler(ast, declarator.init);
+        if (found) {
+          return {
+            handler: found.handler,
+            comments: [...getJSDocComments(statement), ...found.comments],
+          };
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Resolve the handler function of a default export, e.g.
+ * `export default handler` or `export default withAuth(handler)`
+ */
+function resolveHandler(
+  ast: t.File,
+  node: t.Node
+): { handler: HandlerFunction; comments: t.Comment[] } | undefined {
+  if (isHandlerFunction(node)) {
+    return { handler: node, comments: [] };
+  }
+
+  if (t.isIdentifier(node)) {
+    return findFunction(ast, node.name);
+  }
+
+  if (t.isCallExpression(node)) {
+    for (const arg of node.arguments) {
+      const found = resolveHandler(ast, arg);
+      if (found) return found;
+    }
+  }
+
+  if (t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node)) {
+    return resolveHandler(ast, node.expression);
+  }
+}
+
+/**
+ * Use the values of the branch comment, and the default export comment for the rest
+ */
+function mergeDataTypes(base: DataTypes, branch: DataTypes): DataTypes {
+  const result = { ...base };
+
+  Object.entries(branch).forEach(([key, value]) => {
+    if (Array.isArray(value) ? value.length > 0 : value) {
+      result[key] = value;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Find the HTTP methods handled by a Pages Router API route, from
+ * `switch (req.method)` cases and `if (req.method === "POST")` branches
+ */
+export function extractPagesApiOperations(
+  ast: t.File,
+  httpMethods: string[]
+): PagesApiOperation[] {
+  const exportDefault = ast.program.body.find((statement) =>
+    t.isExportDefaultDeclaration(statement)
+  ) as t.ExportDefaultDeclaration | undefined;
+
+  if (!exportDefault) return [];
+
+  const found = resolveHandler(ast, exportDefault.declaration);
+  if (!found) return [];
+
+  const { handler } = found;
+  const defaultDataTypes = parseJSDocComments([
+    ...getJSDocComments(exportDefault),
+    ...found.comments,
+    ...getJSDocComments(handler),
+  ]);
+
+  // req.method, or a variable it is assigned to, e.g. const { method } = req
+  const [reqParam] = handler.params;
+  const reqName = t.isIdentifier(reqParam) ? reqParam.name : "req";
+  const methodNames = new Set<string>();
+
+  const isMethodExpression = (node: t.Node) =>
+    (t.isMemberExpression(node) &&
+      t.isIdentifier(node.object, { name: reqName }) &&
+      t.isIdentifier(node.property, { name: "method" })) ||
+    (t.isIdentifier(node) && methodNames.has(node.name));
+
+  const operations: PagesApiOperation[] = [];
+
+  const addOperation = (method: string, comments: t.Comment[]) => {
+    const upperMethod = method.toUpperCase();
+    if (
+      !httpMethods.includes(upperMethod) ||
+      operations.some((operation) => operation.method === upperMethod)
+    ) {
+      return;
+    }
+
+    operations.push({
+      method: upperMethod,
+      dataTypes: mergeDataTypes(defaultDataTypes, parseJSDocComments(comments)),
+    });
+  };
+
+  /**
+   * Get the methods compared in an if test, e.g. req.method === "PUT" || req.method === "PATCH"
+   */
+  const getComparedMethods = (node: t.Node, operators: string[]): string[] => {
+    if (t.isLogicalExpression(node)) {
+      return [
+        ...getComparedMethods(node.left, operators),
+        ...getComparedMethods(node.right, operators),
+      ];
+    }
+
+    if (t.isBinaryExpression(node) && operators.includes(node.operator)) {
+      if (isMethodExpression(node.left) && t.isStringLiteral(node.right)) {
+        return [node.right.value];
+      }
+      if (isMethodExpression(node.right) && t.isStringLiteral(node.left)) {
+        return [node.left.value];
+      }
+    }
+
+    return [];
+  };
+
+  const isInHandler = (node: t.Node) =>
+    node.start >= handler.start && node.end <= handler.end;
+
+  traverse.default(ast, {
+    VariableDeclarator: (path) => {
+      const { id, init } = path.node;
+      if (!isInHandler(path.node)) return;
+
+      if (t.isObjectPattern(id) && t.isIdentifier(init, { name: reqName })) {
+        id.properties.forEach((property) => {
+          if (
+            t.isObjectProperty(property) &&
+            t.isIdentifier(property.key, { name: "method" }) &&
+            t.isIdentifier(property.value)
+          ) {
+            methodNames.add(property.value.name);
+          }
+        });
+      } else if (t.isIdentifier(id) && init && isMethodExpression(init)) {
+        methodNames.add(id.name);
+      }
+    },
+    SwitchStatement: (path) => {
+      const { discriminant, cases } = path.node;
+      if (!isInHandler(path.node) || !isMethodExpression(discriminant)) {
+        return;
+      }
+
+      // Cases falling through share the comment above the first one
+      let groupComments: t.Comment[] = [];
+      cases.forEach((switchCase) => {
+        const comments = getJSDocComments(switchCase);
+        if (comments.length > 0) {
+          groupComments = comments;
+        }
+
+        if (t.isStringLiteral(switchCase.test)) {
+          addOperation(switchCase.test.value, groupComments);
+        }
+
+        if (switchCase.consequent.length > 0) {
+          groupComments = [];
+        }
+      });
+    },
+    IfStatement: (path) => {
+      const { test, consequent } = path.node;
+      if (!isInHandler(path.node)) return;
+
+      let comments = getJSDocComments(path.node);
+
+      // A comment before `else if` is attached to the previous block
+      if (
+        comments.length === 0 &&
+        t.isIfStatement(path.parent) &&
+        path.parent.alternate === path.node
+      ) {
+        comments = (path.parent.consequent.trailingComments || []).filter(
+          isJSDocComment
+        );
+      }
+
+      // Or placed at the top of the branch
+      if (comments.length === 0 && t.isBlockStatement(consequent)) {
+        comments = getJSDocComments(consequent.body[0]);
+      }
+
+      getComparedMethods(test, ["===", "=="]).forEach((method) =>
+        addOperation(method, comments)
+      );
+
+      // Guards like if (req.method !== "POST") return res.status(405).end()
+      getComparedMethods(test, ["!==", "!="]).forEach((method) =>
+        addOperation(method, [])
+      );
+    },
+  });
+
+  if (operations.length === 0) {
+    logger.debug(
+      "No req.method checks found in the Pages Router handler, documenting it as GET"
+    );
+    addOperation("GET", []);
+  }
+
+  return operations;
+}
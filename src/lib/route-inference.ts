@@ -0,0 +1,583 @@
+import * as t from "@babel/types";
+import traverse from "@babel/traverse";
+
+export type InferredQueryParam = {
+  name: string;
+  multiple: boolean; // read with getAll()
+};
+
+/**
+ * What the body of a route handler tells about the operation, used when the
+ * JSDoc doesn't document it
+ */
+export type RouteInference = {
+  queryParams?: InferredQueryParam[];
+  body?: InferredBody;
+  responses?: InferredResponse[];
+  headers?: string[];
+  cookies?: string[];
+};
+
+export type InferredBody = {
+  schemaName?: string; // e.g. CreateUserSchema.parse(await request.json())
+  contentType: string;
+};
+
+export type InferredResponse = {
+  status: string;
+  schemaName?: string; // type of the returned value, e.g. const user: User = ...
+  bodySchema?: any; // shape of a returned literal, e.g. { error: "Not found" }
+  hasBody: boolean;
+  isRedirect?: boolean;
+  mediaType?: string; // Content-Type header of new Response(stream, init)
+  hasContentDisposition?: boolean;
+  isStream?: boolean; // Server-Sent Events
+};
+
+// Methods reading URLSearchParams, Headers and cookies
+const READ_METHODS = ["get", "getAll", "has"];
+const PARSE_METHODS = ["parse", "parseAsync", "safeParse", "safeParseAsync"];
+
+// Request body readers and the content type they expect
+const BODY_READERS: Record<string, string> = {
+  json: "application/json",
+  formData: "multipart/form-data",
+  text: "text/plain",
+};
+
+// OpenAPI ignores header parameters with these names
+const IGNORED_HEADERS = ["accept", "content-type", "authorization"];
+
+const RESPONSE_CLASSES = ["NextResponse", "Response"];
+
+// Web streams whose readable side a handler can respond with
+const STREAM_CLASSES = ["ReadableStream", "TransformStream"];
+
+// Event stream responses of the ai SDK, e.g. result.toDataStreamResponse()
+const STREAM_RESPONSE_METHODS = [
+  "toDataStreamResponse",
+  "toTextStreamResponse",
+  "toUIMessageStreamResponse",
+];
+
+// Status codes of the next/navigation redirects
+const NAVIGATION_REDIRECTS: Record<string, string> = {
+  redirect: "307",
+  permanentRedirect: "308",
+};
+
+function getTypeName(node: t.Node | null | undefined): string | undefined {
+  if (t.isTSTypeAnnotation(node)) return getTypeName(node.typeAnnotation);
+
+  if (t.isTSTypeReference(node) && t.isIdentifier(node.typeName)) {
+    return node.typeName.name;
+  }
+
+  // User | null, once narrowed
+  if (t.isTSUnionType(node)) {
+    const types = node.types.filter(
+      (type) => !t.isTSNullKeyword(type) && !t.isTSUndefinedKeyword(type)
+    );
+    return types.length === 1 ? getTypeName(types[0]) : undefined;
+  }
+}
+
+/**
+ * Get the status of a response init like { status: 404 }
+ * @returns The default status without status, undefined when it is not a literal
+ */
+function getInitStatus(
+  init: t.Node | undefined,
+  defaultStatus: string
+): string | undefined {
+  if (t.isNumericLiteral(init)) return String(init.value);
+
+  if (!t.isObjectExpression(init)) return init ? undefined : defaultStatus;
+
+  const statusProperty = init.properties.find(
+    (property) =>
+      t.isObjectProperty(property) &&
+      t.isIdentifier(property.key, { name: "status" })
+  ) as t.ObjectProperty | undefined;
+
+  if (!statusProperty) return defaultStatus;
+
+  return t.isNumericLiteral(statusProperty.value)
+    ? String(statusProperty.value.value)
+    : undefined;
+}
+
+/**
+ * Get the string value of a header in a response init like
+ * { headers: { "Content-Type": "application/pdf" } } or new Headers({ ... })
+ * @returns The value, "" when the header isn't a string literal
+ */
+function getInitHeader(
+  init: t.Node | undefined,
+  name: string
+): string | undefined {
+  if (!t.isObjectExpression(init)) return;
+
+  const headersProperty = init.properties.find(
+    (property) =>
+      t.isObjectProperty(property) &&
+      t.isIdentifier(property.key, { name: "headers" })
+  ) as t.ObjectProperty | undefined;
+
+  let headers: t.Node | undefined = headersProperty?.value;
+  if (
+    t.isNewExpression(headers) &&
+    t.isIdentifier(headers.callee, { name: "Headers" })
+  ) {
+    [headers] = headers.arguments;
+  }
+  if (!t.isObjectExpression(headers)) return;
+
+  const header = headers.properties.find((property) => {
+    if (!t.isObjectProperty(property)) return false;
+    const key = t.isIdentifier(property.key)
+      ? property.key.name
+      : t.isStringLiteral(property.key)
+      ? property.key.value
+      : "";
+    return key.toLowerCase() === name.toLowerCase();
+  }) as t.ObjectProperty | undefined;
+
+  if (!header) return;
+
+  return t.isStringLiteral(header.value) ? header.value.value : "";
+}
+
+/**
+ * Get the schema of a literal value, e.g. { error: "Not found" }
+ */
+function getLiteralSchema(node: t.Node | undefined): any {
+  if (t.isStringLiteral(node) || t.isTemplateLiteral(node)) {
+    return { type: "string" };
+  }
+  if (t.isNumericLiteral(node)) return { type: "number" };
+  if (t.isBooleanLiteral(node)) return { type: "boolean" };
+
+  if (t.isArrayExpression(node)) {
+    return { type: "array", items: getLiteralSchema(node.elements[0]) || {} };
+  }
+
+  if (t.isObjectExpression(node)) {
+    const properties: Record<string, any> = {};
+    node.properties.forEach((property) => {
+      if (!t.isObjectProperty(property)) return;
+
+      const key = t.isIdentifier(property.key)
+        ? property.key.name
+        : t.isStringLiteral(property.key)
+        ? property.key.value
+        : "";
+      if (key) {
+        properties[key] = getLiteralSchema(property.value) || {};
+      }
+    });
+    return { type: "object", properties };
+  }
+}
+
+function isNullish(node: t.Node | undefined): boolean {
+  return (
+    !node ||
+    t.isNullLiteral(node) ||
+    t.isIdentifier(node, { name: "undefined" })
+  );
+}
+
+/**
+ * Get the names imported from a module, by local name
+ */
+function getImportedNames(ast: t.File, source: string): Record<string, string> {
+  const names: Record<string, string> = {};
+
+  ast.program.body.forEach((statement) => {
+    if (
+      !t.isImportDeclaration(statement) ||
+      statement.source.value !== source
+    ) {
+      return;
+    }
+
+    statement.specifiers.forEach((specifier) => {
+      if (
+        t.isImportSpecifier(specifier) &&
+        t.isIdentifier(specifier.imported)
+      ) {
+        names[specifier.local.name] = specifier.imported.name;
+      }
+    });
+  });
+
+  return names;
+}
+
+function isSearchParamsAccess(node: t.Node): boolean {
+  return (
+    t.isMemberExpression(node) &&
+    t.isIdentifier(node.property, { name: "searchParams" })
+  );
+}
+
+/**
+ * Find the function a handler export runs, e.g. the arrow function in withAuth(async (req) => ...)
+ */
+function getHandlerFunction(node: t.Node): t.Function | undefined {
+  if (t.isFunction(node)) return node;
+
+  if (t.isCallExpression(node)) {
+    for (const arg of [...node.arguments].reverse()) {
+      const handlerFunction = getHandlerFunction(arg);
+      if (handlerFunction) return handlerFunction;
+    }
+  }
+
+  if (t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node)) {
+    return getHandlerFunction(node.expression);
+  }
+}
+
+/**
+ * Walk a route handler, e.g. to find the query parameters it reads from
+ * request.nextUrl.searchParams or new URL(request.url).searchParams
+ */
+export function inferFromHandler(ast: t.File, handler: t.Node): RouteInference {
+  const queryParams: InferredQueryParam[] = [];
+  // Variables holding the search params, e.g. const { searchParams } = request.nextUrl
+  const searchParamsNames = new Set<string>();
+
+  const [requestParam] = getHandlerFunction(handler)?.params || [];
+  const requestName = t.isIdentifier(requestParam) ? requestParam.name : "";
+  let body: InferredBody | undefined;
+  // Variables holding the request body, with the reader used
+  const bodyNames: Record<string, string> = {};
+
+  const responses: InferredResponse[] = [];
+  const navigationImports = getImportedNames(ast, "next/navigation");
+  // Variables declared with a type, e.g. const user: UserResponse = ...
+  const typedNames: Record<string, string> = {};
+
+  const getValueTypeName = (node: t.Node): string | undefined => {
+    if (t.isIdentifier(node)) return typedNames[node.name];
+
+    if (t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node)) {
+      return getTypeName(node.typeAnnotation);
+    }
+  };
+
+  // Variables holding a stream, e.g. const { readable } = new TransformStream()
+  const streamNames = new Set<string>();
+
+  const isStreamValue = (node: t.Node | undefined): boolean => {
+    if (t.isNewExpression(node) && t.isIdentifier(node.callee)) {
+      return STREAM_CLASSES.includes(node.callee.name);
+    }
+
+    if (t.isIdentifier(node)) return streamNames.has(node.name);
+
+    // stream.readable
+    return (
+      t.isMemberExpression(node) &&
+      t.isIdentifier(node.property, { name: "readable" }) &&
+      isStreamValue(node.object)
+    );
+  };
+
+  const addResponse = (response: InferredResponse) => {
+    if (!response.status) return;
+
+    const existing = responses.find(({ status }) => status === response.status);
+    if (existing) {
+      existing.schemaName = existing.schemaName || response.schemaName;
+      existing.bodySchema = existing.bodySchema || response.bodySchema;
+      existing.hasBody = existing.hasBody || response.hasBody;
+      existing.mediaType = existing.mediaType || response.mediaType;
+      existing.hasContentDisposition =
+        existing.hasContentDisposition || response.hasContentDisposition;
+      existing.isStream = existing.isStream || response.isStream;
+    } else {
+      responses.push(response);
+    }
+  };
+
+  // request.json(), await request.formData() or a variable holding it
+  const getBodyReader = (node: t.Node): string | undefined => {
+    if (t.isAwaitExpression(node)) return getBodyReader(node.argument);
+
+    if (t.isIdentifier(node)) return bodyNames[node.name];
+
+    if (!t.isCallExpression(node)) return;
+
+    const { callee, arguments: args } = node;
+
+    // Object.fromEntries(await request.formData())
+    if (
+      t.isMemberExpression(callee) &&
+      t.isIdentifier(callee.object, { name: "Object" }) &&
+      t.isIdentifier(callee.property, { name: "fromEntries" }) &&
+      args[0]
+    ) {
+      return getBodyReader(args[0]);
+    }
+
+    if (
+      t.isMemberExpression(callee) &&
+      t.isIdentifier(callee.object, { name: requestName }) &&
+      t.isIdentifier(callee.property) &&
+      callee.property.name in BODY_READERS
+    ) {
+      return callee.property.name;
+    }
+  };
+
+  const headers: string[] = [];
+  const cookies: string[] = [];
+  const nextHeadersImports = getImportedNames(ast, "next/headers");
+  // Variables holding the request headers or cookies
+  const requestDataNames: Record<string, "headers" | "cookies"> = {};
+
+  // request.headers, await headers() from next/headers or a variable holding them
+  const getRequestData = (node: t.Node): "headers" | "cookies" | undefined => {
+    if (t.isAwaitExpression(node)) return getRequestData(node.argument);
+
+    if (t.isIdentifier(node)) return requestDataNames[node.name];
+
+    if (
+      t.isMemberExpression(node) &&
+      requestName &&
+      t.isIdentifier(node.object, { name: requestName }) &&
+      t.isIdentifier(node.property) &&
+      (node.property.name === "headers" || node.property.name === "cookies")
+    ) {
+      return node.property.name;
+    }
+
+    if (t.isCallExpression(node) && t.isIdentifier(node.callee)) {
+      const imported = nextHeadersImports[node.callee.name];
+      if (imported === "headers" || imported === "cookies") {
+        return imported;
+      }
+    }
+  };
+
+  const isInHandler = (node: t.Node) =>
+    node.start >= handler.start && node.end <= handler.end;
+
+  const isSearchParams = (node: t.Node) =>
+    isSearchParamsAccess(node) ||
+    (t.isIdentifier(node) && searchParamsNames.has(node.name));
+
+  traverse.default(ast, {
+    VariableDeclarator: (path) => {
+      const { id, init } = path.node;
+      if (!init || !isInHandler(path.node)) return;
+
+      if (t.isIdentifier(id) && id.typeAnnotation) {
+        typedNames[id.name] = getTypeName(id.typeAnnotation);
+      }
+
+      const bodyReader = requestName && getBodyReader(init);
+      if (t.isIdentifier(id) && bodyReader) {
+        bodyNames[id.name] = bodyReader;
+      }
+
+      const requestData = getRequestData(init);
+      if (t.isIdentifier(id) && requestData) {
+        requestDataNames[id.name] = requestData;
+      }
+
+      if (t.isIdentifier(id) && isStreamValue(init)) {
+        streamNames.add(id.name);
+      }
+
+      if (t.isIdentifier(id) && isSearchParamsAccess(init)) {
+        searchParamsNames.add(id.name);
+      } else if (t.isObjectPattern(id)) {
+        id.properties.forEach((property) => {
+          if (
+            !t.isObjectProperty(property) ||
+            !t.isIdentifier(property.value)
+          ) {
+            return;
+          }
+
+          if (t.isIdentifier(property.key, { name: "searchParams" })) {
+            searchParamsNames.add(property.value.name);
+          }
+
+          // const { readable, writable } = new TransformStream()
+          if (
+            t.isIdentifier(property.key, { name: "readable" }) &&
+            isStreamValue(init)
+          ) {
+            streamNames.add(property.value.name);
+          }
+
+          // const { headers } = request
+          if (
+            requestName &&
+            t.isIdentifier(init, { name: requestName }) &&
+            t.isIdentifier(property.key) &&
+            (property.key.name === "headers" || property.key.name === "cookies")
+          ) {
+            requestDataNames[property.value.name] = property.key.name;
+          }
+        });
+      }
+    },
+    CallExpression: (path) => {
+      const { callee, arguments: args } = path.node;
+      if (!isInHandler(path.node)) return;
+
+      const bodyReader = requestName && getBodyReader(path.node);
+      if (bodyReader && !body) {
+        body = { contentType: BODY_READERS[bodyReader] };
+      }
+
+      // CreateUserSchema.parse(await request.json())
+      if (
+        requestName &&
+        t.isMemberExpression(callee) &&
+        t.isIdentifier(callee.object) &&
+        t.isIdentifier(callee.property) &&
+        PARSE_METHODS.includes(callee.property.name) &&
+        args[0] &&
+        !body?.schemaName
+      ) {
+        const parsedReader = getBodyReader(args[0]);
+        if (parsedReader) {
+          body = {
+            schemaName: callee.object.name,
+            contentType: BODY_READERS[parsedReader],
+          };
+        }
+      }
+
+      // NextResponse.json(user, { status: 201 }) or NextResponse.redirect(url)
+      if (
+        t.isMemberExpression(callee) &&
+        t.isIdentifier(callee.object) &&
+        RESPONSE_CLASSES.includes(callee.object.name) &&
+        t.isIdentifier(callee.property)
+      ) {
+        if (callee.property.name === "json") {
+          addResponse({
+            status: getInitStatus(args[1], "200"),
+            schemaName:
+              getTypeName(path.node.typeParameters?.params[0]) ||
+              (args[0] && getValueTypeName(args[0])),
+            bodySchema: getLiteralSchema(args[0]),
+            hasBody: true,
+            mediaType: "application/json",
+          });
+        } else if (callee.property.name === "redirect") {
+          addResponse({
+            status: getInitStatus(args[1], "307"),
+            hasBody: false,
+            isRedirect: true,
+          });
+        }
+      }
+
+      // result.toDataStreamResponse() of the ai SDK
+      if (
+        t.isMemberExpression(callee) &&
+        t.isIdentifier(callee.property) &&
+        STREAM_RESPONSE_METHODS.includes(callee.property.name)
+      ) {
+        addResponse({
+          status: getInitStatus(args[0], "200"),
+          hasBody: true,
+          mediaType: "text/event-stream",
+          isStream: true,
+        });
+      }
+
+      // redirect("/login") from next/navigation
+      if (
+        t.isIdentifier(callee) &&
+        NAVIGATION_REDIRECTS[navigationImports[callee.name]]
+      ) {
+        addResponse({
+          status: NAVIGATION_REDIRECTS[navigationImports[callee.name]],
+          hasBody: false,
+          isRedirect: true,
+        });
+      }
+
+      // request.headers.get("x-tenant-id") or (await cookies()).get("session")
+      if (
+        t.isMemberExpression(callee) &&
+        t.isIdentifier(callee.property) &&
+        READ_METHODS.includes(callee.property.name) &&
+        t.isStringLiteral(args[0])
+      ) {
+        const requestData = getRequestData(callee.object);
+        const name = args[0].value;
+
+        if (
+          requestData === "headers" &&
+          !IGNORED_HEADERS.includes(name.toLowerCase()) &&
+          !headers.some((header) => header.toLowerCase() === name.toLowerCase())
+        ) {
+          headers.push(name);
+        } else if (requestData === "cookies" && !cookies.includes(name)) {
+          cookies.push(name);
+        }
+      }
+
+      if (
+        !t.isMemberExpression(callee) ||
+        !t.isIdentifier(callee.property) ||
+        !READ_METHODS.includes(callee.property.name) ||
+        !isSearchParams(callee.object) ||
+        !t.isStringLiteral(args[0])
+      ) {
+        return;
+      }
+
+      const name = args[0].value;
+      const multiple = callee.property.name === "getAll";
+      const existing = queryParams.find((param) => param.name === name);
+
+      if (existing) {
+        existing.multiple = existing.multiple || multiple;
+      } else {
+        queryParams.push({ name, multiple });
+      }
+    },
+    // new NextResponse(null, { status: 204 })
+    NewExpression: (path) => {
+      const { callee, arguments: args } = path.node;
+      if (
+        !isInHandler(path.node) ||
+        !t.isIdentifier(callee) ||
+        !RESPONSE_CLASSES.includes(callee.name)
+      ) {
+        return;
+      }
+
+      // new Response(stream, { headers: { "Content-Type": "application/pdf" } })
+      const mediaType =
+        getInitHeader(args[1], "Content-Type")?.split(";")[0].trim() ||
+        undefined;
+      // A stream without Content-Type is taken as Server-Sent Events
+      const isStream =
+        mediaType === "text/event-stream" ||
+        (!mediaType && isStreamValue(args[0]));
+      addResponse({
+        status: getInitStatus(args[1], "200"),
+        hasBody: !isNullish(args[0]),
+        mediaType: isStream ? "text/event-stream" : mediaType,
+        hasContentDisposition:
+          getInitHeader(args[1], "Content-Disposition") !== undefined,
+        isStream,
+      });
+    },
+  });
+
+  return { queryParams, body, responses, headers, cookies };
+}
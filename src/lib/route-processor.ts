@@ -3,19 +3,61 @@ import fs from "fs";
 import path from "path";
 import traverse from "@babel/traverse";
 
-import { SchemaProcessor } from "./schema-processor.js";
+import { BINARY_RESPONSE_TYPE, SchemaProcessor } from "./schema-processor.js";
 import {
   capitalize,
   extractJSDocComments,
+  parseJSDocComments,
   parseTypeScriptFile,
   extractPathParameters,
   getOperationId,
 } from "./utils.js";
-import { DataTypes, OpenApiConfig, RouteDefinition } from "../types.js";
+import {
+  DataTypes,
+  OpenApiConfig,
+  RouteDefinition,
+  SuccessResponse,
+} from "../types.js";
 import { logger } from "./logger.js";
+import { createExamples, loadExample } from "./examples.js";
+import { extractPagesApiOperations } from "./pages-router.js";
+import {
+  applyHandlerWrappers,
+  findLocalHandler,
+  getWrapperNames,
+  LocalHandler,
+} from "./handler-wrappers.js";
+import {
+  inferFromHandler,
+  InferredResponse,
+  RouteInference,
+} from "./route-inference.js";
 
-const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+const HTTP_METHODS = [
+  "GET",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "HEAD",
+  "OPTIONS",
+];
 const MUTATION_HTTP_METHODS = ["PATCH", "POST", "PUT"];
+// Methods whose responses never have a body
+const HEADER_ONLY_HTTP_METHODS = ["HEAD", "OPTIONS"];
+
+// Header of the binary responses, telling whether to display or download the file
+const CONTENT_DISPOSITION_HEADER = {
+  description: 'Inline or attachment, e.g. attachment; filename="report.pdf"',
+  schema: { type: "string" },
+};
+
+// A handler of export { handler as GET, handler as POST }
+type ExportedHandler = {
+  method: string;
+  dataTypes: DataTypes;
+  localHandler: LocalHandler;
+};
 
 export class RouteProcessor {
   private swaggerPaths: Record<string, any> = {};
@@ -25,6 +67,9 @@ export class RouteProcessor {
   private directoryCache: Record<string, string[]> = {};
   private statCache: Record<string, fs.Stats> = {};
   private processFileTracker: Record<string, boolean> = {};
+  private routeSchemaNames: Record<string, Set<string>> = {};
+  // Methods of each route path marked with @openapi
+  private openApiOperations: Record<string, Set<string>> = {};
 
   constructor(config: OpenApiConfig) {
     this.config = config;
@@ -43,17 +88,75 @@ export class RouteProcessor {
     // 1. Add success response
     const successCode =
       dataTypes.successCode || this.getDefaultSuccessCode(method);
-    if (dataTypes.responseType) {
-      const responseSchema = this.schemaProcessor.getSchemaContent({
-        responseType: dataTypes.responseType,
-      }).responses;
+    if (HEADER_ONLY_HTTP_METHODS.includes(method.toUpperCase())) {
       responses[successCode] = {
         description: dataTypes.responseDescription || "Successful response",
-        content: {
-          "application/json": {
-            schema: responseSchema,
+      };
+
+      // CORS preflight - document the allowed methods
+      if (method.toUpperCase() === "OPTIONS") {
+        responses[successCode].headers = {
+          Allow: {
+            description: "HTTP methods allowed for this path",
+            schema: { type: "string" },
           },
-        },
+        };
+      }
+    } else {
+      this.getSuccessResponses(dataTypes, successCode).forEach(
+        ({ code, type, mediaType, description }) => {
+          const isBinary = type === BINARY_RESPONSE_TYPE;
+          const contentType =
+            mediaType ||
+            (isBinary ? "application/octet-stream" : "application/json");
+          const responseSchema = this.schemaProcessor.getSchemaContent({
+            responseType: type,
+          }).responses;
+          // The same code with another media type adds to its content
+          responses[code] = {
+            ...responses[code],
+            description:
+              responses[code]?.description ||
+              description ||
+              "Successful response",
+            content: {
+              ...responses[code]?.content,
+              [contentType]: {
+                schema: responseSchema,
+              },
+            },
+          };
+
+          if (isBinary) {
+            responses[code].headers = {
+              ...responses[code].headers,
+              "Content-Disposition": CONTENT_DISPOSITION_HEADER,
+            };
+          }
+        }
+      );
+
+      // @stream adds the events to the success response
+      if (dataTypes.streamType) {
+        responses[successCode] = {
+          ...responses[successCode],
+          description:
+            responses[successCode]?.description ||
+            dataTypes.responseDescription ||
+            "Event stream",
+          content: {
+            ...responses[successCode]?.content,
+            "text/event-stream": this.createStreamContent(dataTypes.streamType),
+          },
+        };
+      }
+    }
+
+    const responseHeaders = this.getResponseHeaders(dataTypes);
+    if (responses[successCode] && responseHeaders) {
+      responses[successCode].headers = {
+        ...responses[successCode].headers,
+        ...responseHeaders,
       };
     }
 
@@ -109,11 +212,170 @@ export class RouteProcessor {
     return responses;
   }
 
+  /**
+   * The success responses from the @response tags, the first one with the
+   * operation's success code and @responseDescription
+   */
+  private getSuccessResponses(
+    dataTypes: DataTypes,
+    successCode: string
+  ): SuccessResponse[] {
+    if (!dataTypes.responseType) return [];
+
+    const [main, ...others] = dataTypes.successResponses?.length
+      ? dataTypes.successResponses
+      : [{ type: dataTypes.responseType }];
+
+    return [
+      {
+        ...main,
+        code: successCode,
+        type: dataTypes.responseType,
+        description: dataTypes.responseDescription,
+      },
+      ...others.map((response) => ({
+        ...response,
+        code: response.code || successCode,
+      })),
+    ];
+  }
+
+  /**
+   * Get the headers of the success response, from @responseHeaders and the
+   * responseSetHeaders of the operation's response sets
+   */
+  private getResponseHeaders(
+    dataTypes: DataTypes
+  ): Record<string, any> | undefined {
+    const headers: Record<string, any> = {};
+
+    const responseSetName =
+      dataTypes.responseSet || this.config.defaultResponseSet;
+    if (responseSetName && responseSetName !== "none") {
+      responseSetName
+        .split(",")
+        .map((setName) => setName.trim())
+        .forEach((setName) =>
+          Object.assign(headers, this.config.responseSetHeaders?.[setName])
+        );
+    }
+
+    if (dataTypes.responseHeadersType) {
+      const { responseHeaders } = this.schemaProcessor.getSchemaContent({
+        responseHeadersType: dataTypes.responseHeadersType,
+      });
+      Object.assign(
+        headers,
+        this.schemaProcessor.createResponseHeadersSchema(responseHeaders)
+      );
+    }
+
+    return Object.keys(headers).length > 0 ? headers : undefined;
+  }
+
+  /**
+   * Add the status codes returned by the handler that the JSDoc doesn't document
+   */
+  private addInferredResponses(
+    responses: Record<string, any>,
+    inferredResponses: InferredResponse[],
+    dataTypes: DataTypes
+  ) {
+    const { responseDescription, successCode } = dataTypes;
+    // Success statuses are only inferred when the JSDoc documents none
+    const hasSuccess = Object.keys(responses).some((code) =>
+      code.startsWith("2")
+    );
+
+    inferredResponses
+      .filter(
+        ({ status }) =>
+          !(status in responses) && !(hasSuccess && status.startsWith("2"))
+      )
+      .forEach((response) => {
+        const { status, schemaName, isRedirect } = response;
+        if (isRedirect) {
+          responses[status] = {
+            description: "Redirect",
+            headers: {
+              Location: {
+                description: "URL to redirect to",
+                schema: { type: "string" },
+              },
+            },
+          };
+          return;
+        }
+
+        responses[status] = {
+          description: status.startsWith("2")
+            ? responseDescription || "Successful response"
+            : this.getDefaultErrorDescription(status),
+        };
+
+        if (schemaName) {
+          responses[status].content = {
+            "application/json": {
+              schema: this.schemaProcessor.getSchemaContent({
+                responseType: schemaName,
+              }).responses,
+            },
+          };
+        } else if (response.isStream) {
+          responses[status].content = {
+            [response.mediaType]: this.createStreamContent(
+              dataTypes.streamType
+            ),
+          };
+        } else if (response.hasBody && /[/+]json$/.test(response.mediaType)) {
+          // A JSON body without declared type, with the shape of its literal
+          responses[status].content = {
+            [response.mediaType]: { schema: response.bodySchema || {} },
+          };
+        } else if (response.hasBody && response.mediaType) {
+          // A file or stream returned with its Content-Type
+          responses[status].content = {
+            [response.mediaType]: {
+              schema: this.schemaProcessor.createBinarySchema(),
+            },
+          };
+        }
+
+        if (response.hasContentDisposition) {
+          responses[status].headers = {
+            "Content-Disposition": CONTENT_DISPOSITION_HEADER,
+          };
+        }
+
+        const responseHeaders = this.getResponseHeaders(dataTypes);
+        if (status === successCode && responseHeaders) {
+          responses[status].headers = {
+            ...responses[status].headers,
+            ...responseHeaders,
+          };
+        }
+      });
+  }
+
+  /**
+   * The media type object of Server-Sent Events, with the schema of each event
+   */
+  private createStreamContent(streamType?: string): Record<string, any> {
+    return {
+      schema: streamType
+        ? this.schemaProcessor.getSchemaContent({ responseType: streamType })
+            .responses
+        : { type: "string" },
+      "x-stream": true,
+    };
+  }
+
   private getDefaultSuccessCode(method: string): string {
     switch (method.toUpperCase()) {
       case "POST":
         return "201";
       case "DELETE":
+      case "OPTIONS":
         return "204";
       default:
         return "200";
@@ -145,6 +407,91 @@ export class RouteProcessor {
     return HTTP_METHODS.includes(varName);
   }
 
+  private isRouteFile(fileName: string): boolean {
+    return fileName === "route.ts" || fileName === "route.tsx";
+  }
+
+  /**
+   * Route groups like (admin) organize routes without changing the URL
+   */
+  private isRouteGroup(segment: string): boolean {
+    // (.) and (..) are intercepting routes
+    return /^\([^.)][^)]*\)$/.test(segment);
+  }
+
+  /**
+   * @returns Names of the route groups of an app router route, outermost first
+   */
+  private getRouteGroups(filePath: string): string[] {
+    const normalizedPath = filePath.replaceAll("\\", "/");
+    const apiDirPos = normalizedPath.indexOf("/app/api/");
+
+    return normalizedPath
+      .substring(apiDirPos === -1 ? 0 : apiDirPos)
+      .split("/")
+      .filter((segment) => this.isRouteGroup(segment))
+      .map((segment) => segment.slice(1, -1));
+  }
+
+  /**
+   * Folders prefixed with _ and their subfolders are opted out of app router routing
+   */
+  private isPrivateFolder(dirPath: string): boolean {
+    return (
+      path.basename(dirPath).startsWith("_") &&
+      !dirPath.replaceAll("\\", "/").includes("/pages/api/")
+    );
+  }
+
+  /**
+   * Pages Router API routes - every module in pages/api
+   */
+  private isPagesApiFile(filePath: string): boolean {
+    const normalizedPath = filePath.replaceAll("\\", "/");
+
+    return (
+      normalizedPath.includes("/pages/api/") &&
+      /\.tsx?$/.test(normalizedPath) &&
+      !normalizedPath.endsWith(".d.ts")
+    );
+  }
+
+  /**
+   * Forget everything derived from a changed, added or removed file so the
+   * next scan picks it up again. Routes using schemas declared in the file
+   * are invalidated as well.
+   */
+  public invalidateFile(filePath: string): void {
+    const schemaNames = this.schemaProcessor.invalidateSchemaFile(filePath);
+
+    const affectedRoutes = new Set<string>();
+    Object.keys(this.processFileTracker).forEach((routeFile) => {
+      // A removed directory takes its routes with it
+      if (routeFile === filePath || routeFile.startsWith(filePath + path.sep)) {
+        affectedRoutes.add(routeFile);
+      }
+    });
+    Object.entries(this.routeSchemaNames).forEach(([routeFile, names]) => {
+      if (schemaNames.some((schemaName) => names.has(schemaName))) {
+        affectedRoutes.add(routeFile);
+      }
+    });
+
+    affectedRoutes.forEach((routeFile) => {
+      logger.debug(`Invalidating route file: ${routeFile}`);
+      delete this.processFileTracker[routeFile];
+      delete this.routeSchemaNames[routeFile];
+      this.getRoutePaths(routeFile).forEach((routePath) => {
+        delete this.swaggerPaths[routePath];
+        delete this.openApiOperations[routePath];
+      });
+    });
+
+    delete this.directoryCache[filePath];
+    delete this.directoryCache[path.dirname(filePath)];
+    delete this.statCache[filePath];
+  }
+
   private processFile(filePath: string): void {
     // Check if the file has already been processed
     if (this.processFileTracker[filePath]) return;
@@ -152,65 +499,122 @@ export class RouteProcessor {
     const content = fs.readFileSync(filePath, "utf-8");
     const ast = parseTypeScriptFile(content);
 
+    if (this.isPagesApiFile(filePath)) {
+      const exportDefault = ast.program.body.find((statement) =>
+        t.isExportDefaultDeclaration(statement)
+      ) as t.ExportDefaultDeclaration | undefined;
+      const wrapperNames = exportDefault
+        ? getWrapperNames(ast, exportDefault.declaration)
+        : [];
+
+      // A default export handling several methods based on req.method
+      this.withOwnOperationIds(
+        extractPagesApiOperations(ast, HTTP_METHODS),
+        filePath
+      ).forEach(({ method, dataTypes }) =>
+        this.addRouteToPaths(
+          method,
+          filePath,
+          applyHandlerWrappers(dataTypes, wrapperNames, this.config)
+        )
+      );
+
+      this.processFileTracker[filePath] = true;
+      return;
+    }
+
     traverse.default(ast, {
       ExportNamedDeclaration: (path) => {
         const declaration = path.node.declaration;
 
         if (
           t.isFunctionDeclaration(declaration) &&
-          t.isIdentifier(declaration.id)
+          t.isIdentifier(declaration.id) &&
+          this.isRoute(declaration.id.name)
         ) {
-          const dataTypes = extractJSDocComments(path);
-          if (this.isRoute(declaration.id.name)) {
-            // Don't bother adding routes for processing if only including OpenAPI routes and the route is not OpenAPI
+          this.processRouteHandler(
+            declaration.id.name,
+            filePath,
+            extractJSDocComments(path),
+            ast,
+            declaration
+          );
+        }
+
+        if (t.isVariableDeclaration(declaration)) {
+          declaration.declarations.forEach((decl) => {
             if (
-              !this.config.includeOpenApiRoutes ||
-              (this.config.includeOpenApiRoutes && dataTypes.isOpenApi)
+              t.isVariableDeclarator(decl) &&
+              t.isIdentifier(decl.id) &&
+              this.isRoute(decl.id.name)
             ) {
-              // Check for URL parameters in the route path
-              const routePath = this.getRoutePath(filePath);
-              const pathParams = extractPathParameters(routePath);
+              // export const GET = withAuth(async (req) => ...)
+              const wrapperNames = decl.init
+                ? getWrapperNames(ast, decl.init)
+                : [];
+              this.processRouteHandler(
+                decl.id.name,
+                filePath,
+                applyHandlerWrappers(
+                  extractJSDocComments(path),
+                  wrapperNames,
+                  this.config
+                ),
+                ast,
+                decl.init
+              );
+            }
+          });
+        }
+
+        // export { handler as GET, handler as POST }
+        if (!declaration && !path.node.source) {
+          const operations: ExportedHandler[] = path.node.specifiers.flatMap(
+            (specifier) => {
+              if (
+                !t.isExportSpecifier(specifier) ||
+                !t.isIdentifier(specifier.exported) ||
+                !this.isRoute(specifier.exported.name)
+              ) {
+                return [];
+              }
 
-              // If we have path parameters but no pathParamsType defined, we should log a warning
-              if (pathParams.length > 0 && !dataTypes.pathParamsType) {
+              const localHandler = findLocalHandler(ast, specifier.local.name);
+              if (!localHandler) {
                 logger.debug(
-                  `Route ${routePath} contains path parameters ${pathParams.join(
-                    ", "
-                  )} but no @pathParams type is defined.`
+                  `Route handler ${specifier.local.name} exported as ${specifier.exported.name} is not declared in ${filePath}`
                 );
+                return [];
               }
 
-              this.addRouteToPaths(declaration.id.name, filePath, dataTypes);
-            }
-          }
-        }
+              // The JSDoc of the export statement, or of the handler declaration
+              const exportComments = path.node.leadingComments || [];
+              const dataTypes = parseJSDocComments(
+                exportComments.length > 0
+                  ? exportComments
+                  : localHandler.comments
+              );
 
-        if (t.isVariableDeclaration(declaration)) {
-          declaration.declarations.forEach((decl) => {
-            if (t.isVariableDeclarator(decl) && t.isIdentifier(decl.id)) {
-              if (this.isRoute(decl.id.name)) {
-                const dataTypes = extractJSDocComments(path);
-                // Don't bother adding routes for processing if only including OpenAPI routes and the route is not OpenAPI
-                if (
-                  !this.config.includeOpenApiRoutes ||
-                  (this.config.includeOpenApiRoutes && dataTypes.isOpenApi)
-                ) {
-                  const routePath = this.getRoutePath(filePath);
-                  const pathParams = extractPathParameters(routePath);
-
-                  if (pathParams.length > 0 && !dataTypes.pathParamsType) {
-                    logger.debug(
-                      `Route ${routePath} contains path parameters ${pathParams.join(
-                        ", "
-                      )} but no @pathParams type is defined.`
-                    );
-                  }
-
-                  this.addRouteToPaths(decl.id.name, filePath, dataTypes);
-                }
-              }
+              return [
+                { method: specifier.exported.name, dataTypes, localHandler },
+              ];
             }
-          });
+          );
+
+          this.withOwnOperationIds(operations, filePath).forEach(
+            ({ method, dataTypes, localHandler }) =>
+              this.processRouteHandler(
+                method,
+                filePath,
+                applyHandlerWrappers(
+                  dataTypes,
+                  getWrapperNames(ast, localHandler.node),
+                  this.config
+                ),
+                ast,
+                localHandler.node
+              )
+          );
         }
       },
     });
@@ -218,6 +622,73 @@ export class RouteProcessor {
     this.processFileTracker[filePath] = true;
   }
 
+  /**
+   * Keep @operationId only when its comment documents a single method, not
+   * e.g. a Pages Router handler or a handler exported as several methods
+   */
+  private withOwnOperationIds<
+    T extends { method: string; dataTypes: DataTypes }
+  >(operations: T[], filePath: string): T[] {
+    const methodsById: Record<string, string[]> = {};
+    operations
+      .filter(({ dataTypes }) => dataTypes.operationId)
+      .forEach(({ method, dataTypes }) => {
+        methodsById[dataTypes.operationId] = [
+          ...(methodsById[dataTypes.operationId] || []),
+          method.toUpperCase(),
+        ];
+      });
+
+    for (const [operationId, methods] of Object.entries(methodsById)) {
+      if (methods.length > 1) {
+        logger.warn(
+          `@operationId ${operationId} in ${filePath} documents ${methods.join(
+            ", "
+          )}, using operationIdStrategy instead`
+        );
+      }
+    }
+
+    return operations.map((operation) =>
+      methodsById[operation.dataTypes.operationId]?.length > 1
+        ? {
+            ...operation,
+            dataTypes: { ...operation.dataTypes, operationId: undefined },
+          }
+        : operation
+    );
+  }
+
+  private processRouteHandler(
+    varName: string,
+    filePath: string,
+    dataTypes: DataTypes,
+    ast: t.File,
+    handler?: t.Node
+  ): void {
+    // Don't bother adding routes for processing if only including OpenAPI routes and the route is not OpenAPI
+    if (this.config.includeOpenApiRoutes && !dataTypes.isOpenApi) {
+      return;
+    }
+
+    // Check for URL parameters in the route path
+    const routePath = this.getRoutePath(filePath);
+    const pathParams = extractPathParameters(routePath);
+
+    // If we have path parameters but no pathParamsType defined, we should log a warning
+    if (pathParams.length > 0 && !dataTypes.pathParamsType) {
+      logger.debug(
+        `Route ${routePath} contains path parameters ${pathParams.join(
+          ", "
+        )} but no @pathParams type is defined.`
+      );
+    }
+
+    const inference = handler ? inferFromHandler(ast, handler) : {};
+
+    this.addRouteToPaths(varName, filePath, dataTypes, inference);
+  }
+
   public scanApiRoutes(dir: string): void {
     logger.debug(`Scanning API routes in: ${dir}`);
 
@@ -236,8 +707,12 @@ export class RouteProcessor {
       }
 
       if (stat.isDirectory()) {
+        if (this.isPrivateFolder(filePath)) {
+          logger.debug(`Skipping private folder: ${filePath}`);
+          return;
+        }
         this.scanApiRoutes(filePath);
-      } else if (file === "route.ts" || file === "route.tsx") {
+      } else if (this.isRouteFile(file) || this.isPagesApiFile(filePath)) {
         this.processFile(filePath);
       }
     });
@@ -246,12 +721,37 @@ export class RouteProcessor {
   private addRouteToPaths(
     varName: string,
     filePath: string,
-    dataTypes: DataTypes
+    dataTypes: DataTypes,
+    inference: RouteInference = {}
+  ): void {
+    // Optional catch-all routes also handle the path without the segment,
+    // whose operationId follows the strategy to keep @operationId unique
+    this.getRoutePaths(filePath).forEach((routePath, index) =>
+      this.addOperationToPath(
+        varName,
+        routePath,
+        filePath,
+        index === 0 ? dataTypes : { ...dataTypes, operationId: undefined },
+        inference
+      )
+    );
+  }
+
+  private addOperationToPath(
+    varName: string,
+    routePath: string,
+    filePath: string,
+    dataTypes: DataTypes,
+    inference: RouteInference
   ): void {
     const method = varName.toLowerCase();
-    const routePath = this.getRoutePath(filePath);
     const rootPath = capitalize(routePath.split("/")[1]);
-    const operationId = getOperationId(routePath, method);
+    const [routeGroup] = this.config.routeGroupTags
+      ? this.getRouteGroups(filePath)
+      : [];
+    const operationId =
+      dataTypes.operationId ||
+      getOperationId(routePath, method, this.config.operationIdStrategy);
     const {
       tag,
       summary,
@@ -268,14 +768,52 @@ export class RouteProcessor {
       return;
     }
 
-    const { params, pathParams, body, responses } =
+    // Without @body, use the schema the handler validates the request body with
+    if (!dataTypes.bodyType && inference.body) {
+      dataTypes = {
+        ...dataTypes,
+        bodyType: inference.body.schemaName,
+        contentType: dataTypes.contentType || inference.body.contentType,
+      };
+    }
+
+    // Without @response type, the type of the value returned with the success code
+    const successCode =
+      dataTypes.successCode || this.getDefaultSuccessCode(method);
+    const inferredSuccess = inference.responses?.find(
+      ({ status }) => status === successCode
+    );
+    if (!dataTypes.responseType && inferredSuccess?.schemaName) {
+      dataTypes = { ...dataTypes, responseType: inferredSuccess.schemaName };
+    }
+
+    const { params, pathParams, headers, cookies, body, responses } =
       this.schemaProcessor.getSchemaContent(dataTypes);
 
+    // Remember used schemas to know which routes to refresh when they change
+    if (!this.routeSchemaNames[filePath]) {
+      this.routeSchemaNames[filePath] = new Set();
+    }
+    [
+      dataTypes.paramsType,
+      dataTypes.pathParamsType,
+      dataTypes.headersType,
+      dataTypes.cookiesType,
+      dataTypes.bodyType,
+      dataTypes.responseType,
+      ...(dataTypes.successResponses || []).map(({ type }) => type),
+      dataTypes.responseHeadersType,
+      dataTypes.streamType,
+      ...(inference.responses || []).map(({ schemaName }) => schemaName),
+    ]
+      .filter((schemaName) => schemaName && schemaName !== BINARY_RESPONSE_TYPE)
+      .forEach((schemaName) => this.routeSchemaNames[filePath].add(schemaName));
+
     const definition: RouteDefinition = {
       operationId: operationId,
       summary: summary,
       description: description,
-      tags: [tag || rootPath],
+      tags: [tag || (routeGroup && capitalize(routeGroup)) || rootPath],
       parameters: [],
     };
 
@@ -297,13 +835,28 @@ export class RouteProcessor {
         this.schemaProcessor.createRequestParamsSchema(params);
     }
 
+    // Without @params, document the query parameters the handler reads
+    if (!dataTypes.paramsType && inference.queryParams?.length > 0) {
+      definition.parameters.push(
+        ...this.schemaProcessor.createInferredQueryParamsSchema(
+          inference.queryParams
+        )
+      );
+    }
+
     // Add path parameters
     const pathParamNames = extractPathParameters(routePath);
+    const catchAllParams = this.getCatchAllParams(filePath).map(
+      ({ name }) => name
+    );
     if (pathParamNames.length > 0) {
       // If we have path parameters but no schema, create a default schema
-      if (!pathParams) {
+      if (!dataTypes.pathParamsType) {
         const defaultPathParams =
-          this.schemaProcessor.createDefaultPathParamsSchema(pathParamNames);
+          this.schemaProcessor.createDefaultPathParamsSchema(
+            pathParamNames,
+            catchAllParams
+          );
         definition.parameters.push(...defaultPathParams);
       } else {
         const moreParams = this.schemaProcessor.createRequestParamsSchema(
@@ -321,6 +874,54 @@ export class RouteProcessor {
       definition.parameters.push(...moreParams);
     }
 
+    // A catch-all is a single slash-separated string, whatever its declared type
+    definition.parameters = definition.parameters
+      .filter(
+        (param) =>
+          param.in !== "path" ||
+          !catchAllParams.includes(param.name) ||
+          pathParamNames.includes(param.name)
+      )
+      .map((param) =>
+        param.in === "path" && catchAllParams.includes(param.name)
+          ? this.schemaProcessor.createCatchAllParamSchema(
+              param.name,
+              param.description
+            )
+          : param
+      );
+
+    // Add header and cookie parameters, with the ones the handler reads
+    const headerParams = this.schemaProcessor
+      .createRequestParamsSchema(headers)
+      .map((param) => ({ ...param, in: "header" }));
+    const cookieParams = this.schemaProcessor
+      .createRequestParamsSchema(cookies)
+      .map((param) => ({ ...param, in: "cookie" }));
+
+    const inferredHeaders = (inference.headers || []).filter(
+      (name) =>
+        !headerParams.some(
+          (param) => param.name.toLowerCase() === name.toLowerCase()
+        )
+    );
+    const inferredCookies = (inference.cookies || []).filter(
+      (name) => !cookieParams.some((param) => param.name === name)
+    );
+
+    definition.parameters.push(
+      ...headerParams,
+      ...this.schemaProcessor.createInferredParamsSchema(
+        inferredHeaders,
+        "header"
+      ),
+      ...cookieParams,
+      ...this.schemaProcessor.createInferredParamsSchema(
+        inferredCookies,
+        "cookie"
+      )
+    );
+
     // Add request body
     if (MUTATION_HTTP_METHODS.includes(method.toUpperCase())) {
       definition.requestBody = this.schemaProcessor.createRequestBodySchema(
@@ -333,20 +934,131 @@ export class RouteProcessor {
     // Add responses
     definition.responses = this.buildResponsesFromConfig(dataTypes, method);
 
-    // If there are no responses from config, use the old logic
-    if (Object.keys(definition.responses).length === 0) {
+    // If there are no responses from config, use the old logic, unless the
+    // handler responds with a stream or a file, or the success statuses are
+    // inferred without a documented response type
+    const okMediaType = inference.responses?.find(
+      ({ status }) => status === "200"
+    )?.mediaType;
+    const hasInferredSuccess = (inference.responses || []).some(({ status }) =>
+      status.startsWith("2")
+    );
+    if (
+      Object.keys(definition.responses).length === 0 &&
+      !(okMediaType && !/[/+]json$/.test(okMediaType)) &&
+      !(hasInferredSuccess && !dataTypes.responseType)
+    ) {
       definition.responses = responses
         ? this.schemaProcessor.createResponseSchema(
             responses,
-            responseDescription
+            responseDescription,
+            this.getResponseHeaders(dataTypes)
           )
         : {};
     }
 
+    this.addInferredResponses(
+      definition.responses,
+      inference.responses || [],
+      dataTypes
+    );
+
+    this.addExamples(definition, method, dataTypes, filePath);
+
     if (!(routePath in this.swaggerPaths)) {
       this.swaggerPaths[routePath] = {};
     }
     this.swaggerPaths[routePath][method] = definition;
+
+    if (isOpenApi) {
+      if (!this.openApiOperations[routePath]) {
+        this.openApiOperations[routePath] = new Set();
+      }
+      this.openApiOperations[routePath].add(method);
+    }
+  }
+
+  /**
+   * Add the @bodyExample, @responseExample and @paramExample values
+   */
+  private addExamples(
+    definition: RouteDefinition,
+    method: string,
+    dataTypes: DataTypes,
+    filePath: string
+  ) {
+    const baseDir = path.dirname(filePath);
+    const {
+      bodyExamples = [],
+      responseExamples = [],
+      paramExamples = [],
+    } = dataTypes;
+
+    if (bodyExamples.length > 0 && definition.requestBody) {
+      this.addContentExamples(definition.requestBody, bodyExamples, baseDir);
+    } else if (bodyExamples.length > 0) {
+      logger.warn(`@bodyExample without request body in ${filePath}`);
+    }
+
+    const successCode =
+      dataTypes.successCode ||
+      Object.keys(definition.responses).find((code) => code.startsWith("2")) ||
+      this.getDefaultSuccessCode(method);
+    const examplesByCode: Record<string, string[]> = {};
+    for (const { code = successCode, value } of responseExamples) {
+      examplesByCode[code] = [...(examplesByCode[code] || []), value];
+    }
+
+    for (const [code, rawValues] of Object.entries(examplesByCode)) {
+      const response = definition.responses[code];
+      // Responses from components can't be changed per operation
+      if (!response || response.$ref) {
+        logger.warn(
+          `@responseExample for ${code}, which is not a response of this operation, in ${filePath}`
+        );
+        continue;
+      }
+
+      response.content = response.content || { "application/json": {} };
+      this.addContentExamples(response, rawValues, baseDir);
+    }
+
+    for (const { name, value } of paramExamples) {
+      const param = definition.parameters.find((param) => param.name === name);
+      if (!param) {
+        logger.warn(
+          `@paramExample for unknown parameter ${name} in ${filePath}`
+        );
+        continue;
+      }
+
+      const example = loadExample(value, baseDir);
+      if (example) {
+        param.example =
+          param.schema?.type === "string"
+            ? String(example.value)
+            : example.value;
+      }
+    }
+  }
+
+  private addContentExamples(
+    target: any,
+    rawValues: string[],
+    baseDir: string
+  ) {
+    const examples = createExamples(rawValues, baseDir);
+
+    Object.values(target.content).forEach((mediaType: any) => {
+      mediaType.examples = { ...mediaType.examples, ...examples };
+    });
+  }
+
+  /**
+   * Whether the operation has an @openapi tag
+   */
+  public isOpenApiOperation(routePath: string, method: string): boolean {
+    return !!this.openApiOperations[routePath]?.has(method);
   }
 
   private getRoutePath(filePath: string): string {
@@ -362,23 +1074,82 @@ export class RouteProcessor {
       // Convert directory separators to URL path format
       relativePath = relativePath.replaceAll("\\", "/");
 
-      // Convert Next.js dynamic route syntax to OpenAPI parameter syntax
-      relativePath = relativePath.replace(/\/\[([^\]]+)\]/g, "/{$1}");
+      // Route groups and parallel route slots are not part of the URL
+      relativePath = relativePath
+        .split("/")
+        .filter(
+          (segment) => !this.isRouteGroup(segment) && !segment.startsWith("@")
+        )
+        .join("/")
+        // %5F escapes a leading underscore, e.g. %5Finternal -> /_internal
+        .replace(/%5F/gi, "_");
+
+      return this.convertDynamicSegments(relativePath);
+    }
 
-      // Handle catch-all routes ([...param])
-      relativePath = relativePath.replace(/\/\[\.\.\.(.*)\]/g, "/{$1}");
+    const normalizedPath = filePath.replaceAll("\\", "/");
+    if (normalizedPath.includes("/pages/api/")) {
+      const apiDirPos = normalizedPath.lastIndexOf("/pages/api/");
+      const relativePath = normalizedPath
+        .substring(apiDirPos + "/pages/api".length)
+        .replace(/\.tsx?$/, "")
+        // pages/api/users/index.ts handles /users
+        .replace(/\/index$/, "");
 
-      return relativePath;
+      return this.convertDynamicSegments(relativePath) || "/";
     }
 
-    // For pages router or other formats
+    // For other formats
     const suffixPath = filePath.split("api")[1];
     return suffixPath
       .replace(/route\.tsx?$/, "")
       .replaceAll("\\", "/")
+      .replace(/\/\[\[\.\.\.([^\]]+)\]\]/g, "/{$1}") // Replace [[...param]] with {param}
+      .replace(/\/\[\.\.\.([^\]]+)\]/g, "/{$1}") // Replace [...param] with {param}
       .replace(/\/$/, "")
-      .replace(/\/\[([^\]]+)\]/g, "/{$1}") // Replace [param] with {param}
-      .replace(/\/\[\.\.\.(.*)\]/g, "/{$1}"); // Replace [...param] with {param}
+      .replace(/\/\[([^\]]+)\]/g, "/{$1}"); // Replace [param] with {param}
+  }
+
+  /**
+   * Convert Next.js dynamic segments to OpenAPI parameter syntax.
+   * Catch-alls go first, so [...slug] does not become {...slug}.
+   */
+  private convertDynamicSegments(routePath: string): string {
+    return routePath
+      .replace(/\/\[\[\.\.\.([^\]]+)\]\]/g, "/{$1}")
+      .replace(/\/\[\.\.\.([^\]]+)\]/g, "/{$1}")
+      .replace(/\/\[([^\]]+)\]/g, "/{$1}");
+  }
+
+  /**
+   * Get the catch-all ([...slug]) and optional catch-all ([[...slug]]) parameters of a route
+   */
+  private getCatchAllParams(
+    filePath: string
+  ): Array<{ name: string; optional: boolean }> {
+    return [...filePath.matchAll(/\[(\[)?\.\.\.([^\]]+)\](\])?/g)].map(
+      ([, optionalStart, name, optionalEnd]) => ({
+        name,
+        optional: !!(optionalStart && optionalEnd),
+      })
+    );
+  }
+
+  /**
+   * Get the paths a route file handles - an optional catch-all also matches the path without it
+   */
+  private getRoutePaths(filePath: string): string[] {
+    const routePath = this.getRoutePath(filePath);
+    const optionalCatchAll = this.getCatchAllParams(filePath).find(
+      ({ optional }) => optional
+    );
+
+    if (!optionalCatchAll) {
+      return [routePath];
+    }
+
+    const basePath = routePath.replace(`/{${optionalCatchAll.name}}`, "");
+    return [routePath, basePath || "/"];
   }
 
   private getSortedPaths(paths: Record<string, any>): Record<string, any> {
@@ -421,8 +1192,61 @@ export class RouteProcessor {
       }, {});
   }
 
+  /**
+   * Set the example of Allow headers to the methods of their path
+   */
+  private addAllowHeaderExamples(paths: Record<string, any>) {
+    Object.values(paths).forEach((pathItem) => {
+      const methods = Object.keys(pathItem)
+        .map((method) => method.toUpperCase())
+        .join(", ");
+
+      Object.values(pathItem.options?.responses || {}).forEach(
+        (response: any) => {
+          if (response?.headers?.Allow) {
+            response.headers.Allow.example = methods;
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Fail on operationIds used by several operations, which SDK generators reject
+   */
+  private checkDuplicateOperationIds(paths: Record<string, any>) {
+    const operations: Record<string, string[]> = {};
+
+    Object.entries(paths).forEach(([routePath, pathItem]) => {
+      Object.entries(pathItem).forEach(([method, operation]: [string, any]) => {
+        const { operationId } = operation;
+        operations[operationId] = [
+          ...(operations[operationId] || []),
+          `${method.toUpperCase()} ${routePath}`,
+        ];
+      });
+    });
+
+    const duplicates = Object.entries(operations)
+      .filter(([, operationNames]) => operationNames.length > 1)
+      .map(
+        ([operationId, operationNames]) =>
+          `  "${operationId}" used by ${operationNames.join(", ")}`
+      );
+
+    if (duplicates.length > 0) {
+      throw new Error(
+        `Duplicate operationIds, set @operationId to make them unique:\n${duplicates.join(
+          "\n"
+        )}`
+      );
+    }
+  }
+
   public getSwaggerPaths(): Record<string, any> {
     const paths = this.getSortedPaths(this.swaggerPaths);
+    this.addAllowHeaderExamples(paths);
+    this.checkDuplicateOperationIds(paths);
 
     return this.getSortedPaths(paths);
   }
@@ -3,7 +3,7 @@ import path from "path";
 import traverse from "@babel/traverse";
 import * as t from "@babel/types";
 
-import { parseTypeScriptFile } from "./utils.js";
+import { collectDeclaredNames, parseTypeScriptFile } from "./utils.js";
 import { ZodSchemaConverter } from "./zod-converter.js";
 import {
   ContentType,
@@ -13,6 +13,10 @@ import {
   SchemaType,
 } from "../types.js";
 import { logger } from "./logger.js";
+import { InferredQueryParam } from "./route-inference.js";
+
+// Response type of file downloads, e.g. @response 200:binary:application/pdf
+export const BINARY_RESPONSE_TYPE = "binary";
 
 export class SchemaProcessor {
   private schemaDir: string;
@@ -24,6 +28,8 @@ export class SchemaProcessor {
   private statCache: Record<string, fs.Stats> = {};
   private processSchemaTracker: Record<string, boolean> = {};
   private processingTypes: Set<string> = new Set();
+  private schemaDependents: Record<string, Set<string>> = {};
+  private fileDeclarations: Record<string, string[]> = {};
 
   private zodSchemaConverter: ZodSchemaConverter | null;
   private schemaType: SchemaType;
@@ -53,6 +59,74 @@ export class SchemaProcessor {
     return this.openapiDefinitions;
   }
 
+  /**
+   * Drop cached schemas declared in a changed file, together with the schemas
+   * that depend on them, so they are resolved again on the next generation
+   * @returns Names of all invalidated schemas
+   */
+  public invalidateSchemaFile(filePath: string): string[] {
+    const declaredNames = new Set(this.fileDeclarations[filePath] || []);
+    const fileExists = fs.existsSync(filePath);
+
+    if (fileExists && /\.tsx?$/.test(filePath)) {
+      try {
+        const content = fs.readFileSync(filePath, "utf-8");
+        const ast = parseTypeScriptFile(content);
+        collectDeclaredNames(ast).forEach((name) => declaredNames.add(name));
+      } catch (error) {
+        logger.error(`Error parsing changed file ${filePath}: ${error}`);
+      }
+    }
+
+    const invalidated = new Set<string>();
+    const queue = [...declaredNames];
+
+    while (queue.length > 0) {
+      const schemaName = queue.pop();
+      if (invalidated.has(schemaName)) continue;
+      invalidated.add(schemaName);
+
+      (this.schemaDependents[schemaName] || new Set()).forEach((dependent) =>
+        queue.push(dependent)
+      );
+    }
+
+    if (this.schemaType === "zod" && this.zodSchemaConverter) {
+      this.zodSchemaConverter
+        .invalidateSchemas([...invalidated])
+        .forEach((schemaName) => invalidated.add(schemaName));
+
+      if (fileExists && /\.tsx?$/.test(filePath)) {
+        this.zodSchemaConverter.scanFileForTypeMappings(filePath);
+      }
+    }
+
+    invalidated.forEach((schemaName) => {
+      delete this.openapiDefinitions[schemaName];
+      delete this.typeDefinitions[schemaName];
+      delete this.schemaDependents[schemaName];
+    });
+
+    Object.keys(this.processSchemaTracker).forEach((key) => {
+      const schemaName = key.substring(key.lastIndexOf("-") + 1);
+      if (key.startsWith(`${filePath}-`) || invalidated.has(schemaName)) {
+        delete this.processSchemaTracker[key];
+      }
+    });
+
+    // The file may have been added or removed
+    delete this.fileDeclarations[filePath];
+    delete this.directoryCache[filePath];
+    delete this.directoryCache[path.dirname(filePath)];
+    delete this.statCache[filePath];
+
+    logger.debug(
+      `Invalidated schemas for ${filePath}: ${[...invalidated].join(", ")}`
+    );
+
+    return [...invalidated];
+  }
+
   public findSchemaDefinition(
     schemaName: string,
     contentType: ContentType
@@ -245,8 +319,14 @@ export class SchemaProcessor {
 
         if (members) {
           (members || []).forEach((member: any) => {
-            if (t.isTSPropertySignature(member) && t.isIdentifier(member.key)) {
-              const propName = member.key.name;
+            // Quoted keys too, e.g. "x-tenant-id" in header types
+            if (
+              t.isTSPropertySignature(member) &&
+              (t.isIdentifier(member.key) || t.isStringLiteral(member.key))
+            ) {
+              const propName = t.isIdentifier(member.key)
+                ? member.key.name
+                : member.key.value;
               const options = this.getPropertyOptions(member);
 
               const property = {
@@ -436,6 +516,16 @@ export class SchemaProcessor {
         }
       }
 
+      // Types that are being resolved right now inline this one
+      this.processingTypes.forEach((parentName) => {
+        if (parentName === typeName) return;
+
+        if (!this.schemaDependents[typeName]) {
+          this.schemaDependents[typeName] = new Set();
+        }
+        this.schemaDependents[typeName].add(parentName);
+      });
+
       // Check if it is a type that we are already processing
       if (this.processingTypes.has(typeName)) {
         return { $ref: `#/components/schemas/${typeName}` };
@@ -594,6 +684,7 @@ export class SchemaProcessor {
       const content = fs.readFileSync(filePath, "utf-8");
       const ast = parseTypeScriptFile(content);
 
+      this.fileDeclarations[filePath] = collectDeclaredNames(ast);
       this.collectTypeDefinitions(ast, schemaName);
 
       // Reset the set of processed types before each schema processing
@@ -681,6 +772,10 @@ export class SchemaProcessor {
       options.nullable = isOptional;
     }
 
+    if (this.contentType === "headers" || this.contentType === "cookies") {
+      options.required = !isOptional;
+    }
+
     return options;
   }
 
@@ -803,8 +898,15 @@ export class SchemaProcessor {
   /**
    * Create a default schema for path parameters when no schema is defined
    */
-  public createDefaultPathParamsSchema(paramNames: string[]): ParamSchema[] {
+  public createDefaultPathParamsSchema(
+    paramNames: string[],
+    catchAllParams: string[] = []
+  ): ParamSchema[] {
     return paramNames.map((paramName) => {
+      if (catchAllParams.includes(paramName)) {
+        return this.createCatchAllParamSchema(paramName);
+      }
+
       // Guess the parameter type based on the name
       let type = "string";
       if (
@@ -833,21 +935,88 @@ export class SchemaProcessor {
     });
   }
 
+  /**
+   * Catch-all segments ([...slug]) match one or more path segments,
+   * documented as a slash-separated string
+   */
+  public createCatchAllParamSchema(
+    paramName: string,
+    description?: string
+  ): ParamSchema {
+    return {
+      name: paramName,
+      in: "path",
+      required: true,
+      schema: {
+        type: "string",
+      },
+      example: "path/to/resource",
+      description:
+        description ||
+        `Path parameter: ${paramName} (slash-separated path segments)`,
+      "x-catch-all": true,
+    };
+  }
+
+  /**
+   * Optional query parameters found in the handler, e.g. searchParams.get("page")
+   */
+  public createInferredQueryParamsSchema(
+    queryParams: InferredQueryParam[]
+  ): ParamSchema[] {
+    return queryParams.map(({ name, multiple }) => ({
+      name,
+      in: "query",
+      required: false,
+      schema: multiple
+        ? { type: "array", items: { type: "string" } }
+        : { type: "string" },
+      description: `Query parameter: ${name}`,
+    }));
+  }
+
+  /**
+   * Optional header or cookie parameters found in the handler, e.g. request.headers.get("x-tenant-id")
+   */
+  public createInferredParamsSchema(
+    names: string[],
+    paramIn: "header" | "cookie"
+  ): ParamSchema[] {
+    const label = paramIn === "header" ? "Header" : "Cookie";
+
+    return names.map((name) => ({
+      name,
+      in: paramIn,
+      required: false,
+      schema: { type: "string" },
+      description: `${label} parameter: ${name}`,
+    }));
+  }
+
   public createRequestParamsSchema(
     params: OpenAPIDefinition,
     isPathParam: boolean = false
   ): ParamSchema[] {
     const queryParams: ParamSchema[] = [];
 
+    params = this.resolveSchemaRef(params);
+
     if (params.properties) {
-      for (let [name, value] of Object.entries(params.properties)) {
+      for (let [name, property] of Object.entries(params.properties)) {
+        const value = this.resolveSchemaRef(property);
+        // Header and cookie properties have a boolean, objects a list of their own
+        const isRequiredProperty =
+          !Array.isArray(value.required) && !!value.required;
         const param: ParamSchema = {
           in: isPathParam ? "path" : "query",
           name,
           schema: {
             type: value.type,
+            ...(value.properties && { properties: value.properties }),
           },
-          required: isPathParam ? true : !!value.required, // Path parameters are always required
+          required: isPathParam
+            ? true // Path parameters are always required
+            : isRequiredProperty || !!params.required?.includes(name),
         };
 
         if (value.enum) {
@@ -871,6 +1040,16 @@ export class SchemaProcessor {
     return queryParams;
   }
 
+  /**
+   * Zod schemas are referenced from components, e.g. { $ref: "#/components/schemas/Pagination" }
+   */
+  private resolveSchemaRef(schema: OpenAPIDefinition): OpenAPIDefinition {
+    if (!schema?.$ref) return schema;
+
+    const schemaName = schema.$ref.replace("#/components/schemas/", "");
+    return this.getDefinedSchemas()[schemaName] || {};
+  }
+
   public createRequestBodySchema(
     body: OpenAPIDefinition,
     description?: string,
@@ -905,7 +1084,8 @@ export class SchemaProcessor {
 
   public createResponseSchema(
     responses: OpenAPIDefinition,
-    description?: string
+    description?: string,
+    headers?: Record<string, any>
   ): any {
     return {
       200: {
@@ -915,29 +1095,70 @@ export class SchemaProcessor {
             schema: responses,
           },
         },
+        ...(headers && { headers }),
       },
     };
   }
 
+  public createBinarySchema(): OpenAPIDefinition {
+    return { type: "string", format: "binary" };
+  }
+
+  /**
+   * Response header objects from a @responseHeaders type/schema
+   */
+  public createResponseHeadersSchema(
+    headers: OpenAPIDefinition
+  ): Record<string, any> {
+    return Object.fromEntries(
+      this.createRequestParamsSchema(headers).map(
+        ({ name, schema, required, description }) => [
+          name,
+          {
+            ...(description && { description }),
+            schema,
+            ...(required && { required }),
+          },
+        ]
+      )
+    );
+  }
+
   public getSchemaContent({
     tag,
     paramsType,
     pathParamsType,
+    headersType,
+    cookiesType,
     bodyType,
     responseType,
+    responseHeadersType,
   }: any): {
     tag: OpenAPIDefinition;
     params: OpenAPIDefinition;
     pathParams: OpenAPIDefinition;
+    headers: OpenAPIDefinition;
+    cookies: OpenAPIDefinition;
     body: OpenAPIDefinition;
     responses: OpenAPIDefinition;
+    responseHeaders: OpenAPIDefinition;
   } {
     let params = paramsType ? this.openapiDefinitions[paramsType] : {};
     let pathParams = pathParamsType
       ? this.openapiDefinitions[pathParamsType]
       : {};
+    let headers = headersType ? this.openapiDefinitions[headersType] : {};
+    let cookies = cookiesType ? this.openapiDefinitions[cookiesType] : {};
     let body = bodyType ? this.openapiDefinitions[bodyType] : {};
-    let responses = responseType ? this.openapiDefinitions[responseType] : {};
+    let responses =
+      responseType === BINARY_RESPONSE_TYPE
+        ? this.createBinarySchema()
+        : responseType
+        ? this.openapiDefinitions[responseType]
+        : {};
+    let responseHeaders = responseHeadersType
+      ? this.openapiDefinitions[responseHeadersType]
+      : {};
 
     if (paramsType && !params) {
       this.findSchemaDefinition(paramsType, "params");
@@ -949,6 +1170,16 @@ export class SchemaProcessor {
       pathParams = this.openapiDefinitions[pathParamsType] || {};
     }
 
+    if (headersType && !headers) {
+      this.findSchemaDefinition(headersType, "headers");
+      headers = this.openapiDefinitions[headersType] || {};
+    }
+
+    if (cookiesType && !cookies) {
+      this.findSchemaDefinition(cookiesType, "cookies");
+      cookies = this.openapiDefinitions[cookiesType] || {};
+    }
+
     if (bodyType && !body) {
       this.findSchemaDefinition(bodyType, "body");
       body = this.openapiDefinitions[bodyType] || {};
@@ -959,12 +1190,20 @@ export class SchemaProcessor {
       responses = this.openapiDefinitions[responseType] || {};
     }
 
+    if (responseHeadersType && !responseHeaders) {
+      this.findSchemaDefinition(responseHeadersType, "headers");
+      responseHeaders = this.openapiDefinitions[responseHeadersType] || {};
+    }
+
     if (this.schemaType === "zod") {
       const schemasToProcess = [
         paramsType,
         pathParamsType,
+        headersType,
+        cookiesType,
         bodyType,
-        responseType,
+        responseType !== BINARY_RESPONSE_TYPE && responseType,
+        responseHeadersType,
       ].filter(Boolean);
       schemasToProcess.forEach((schemaName) => {
         if (!this.openapiDefinitions[schemaName]) {
@@ -977,8 +1216,11 @@ export class SchemaProcessor {
       tag,
       params,
       pathParams,
+      headers,
+      cookies,
       body,
       responses,
+      responseHeaders,
     };
   }
 }
@@ -0,0 +1,454 @@
+import { capitalize } from "./utils.js";
+
+export type SpecChangeType = "added" | "removed" | "changed";
+
+export type SpecDiffOptions = {
+  // Compare every list by position, e.g. to check a written file is identical
+  ordered?: boolean;
+};
+
+export type SpecChange = {
+  type: SpecChangeType;
+  path: string[];
+  oldValue?: any;
+  newValue?: any;
+};
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isPrimitive(value: any): boolean {
+  return value === null || typeof value !== "object";
+}
+
+/**
+ * Parameters are matched by location and name instead of position
+ */
+function isParameterList(values: any[]): boolean {
+  return (
+    values.length > 0 &&
+    values.every((value) => isObject(value) && value.name && value.in)
+  );
+}
+
+function toParameterMap(values: any[]): Record<string, any> {
+  return values.reduce((map, value) => {
+    map[`${value.in}:${value.name}`] = value;
+    return map;
+  }, {});
+}
+
+function diffArrays(
+  oldArray: any[],
+  newArray: any[],
+  path: string[],
+  changes: SpecChange[],
+  options: SpecDiffOptions
+) {
+  // Lists of primitives (required, enum, tags) are compared as sets
+  if (
+    !options.ordered &&
+    oldArray.every(isPrimitive) &&
+    newArray.every(isPrimitive)
+  ) {
+    oldArray
+      .filter((value) => !newArray.includes(value))
+      .forEach((value) =>
+        changes.push({ type: "removed", path, oldValue: value })
+      );
+    newArray
+      .filter((value) => !oldArray.includes(value))
+      .forEach((value) =>
+        changes.push({ type: "added", path, newValue: value })
+      );
+    return;
+  }
+
+  if (
+    !options.ordered &&
+    isParameterList(oldArray) &&
+    isParameterList(newArray)
+  ) {
+    diffValues(
+      toParameterMap(oldArray),
+      toParameterMap(newArray),
+      path,
+      changes,
+      options
+    );
+    return;
+  }
+
+  const length = Math.max(oldArray.length, newArray.length);
+  for (let i = 0; i < length; i++) {
+    diffValues(
+      oldArray[i],
+      newArray[i],
+      [...path, String(i)],
+      changes,
+      options
+    );
+  }
+}
+
+function diffValues(
+  oldValue: any,
+  newValue: any,
+  path: string[],
+  changes: SpecChange[],
+  options: SpecDiffOptions
+) {
+  if (oldValue === undefined && newValue === undefined) return;
+
+  if (oldValue === undefined) {
+    changes.push({ type: "added", path, newValue });
+    return;
+  }
+
+  if (newValue === undefined) {
+    changes.push({ type: "removed", path, oldValue });
+    return;
+  }
+
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    diffArrays(oldValue, newValue, path, changes, options);
+    return;
+  }
+
+  if (isObject(oldValue) && isObject(newValue)) {
+    const keys = new Set([...Object.keys(oldValue), ...Object.keys(newValue)]);
+    keys.forEach((key) =>
+      diffValues(oldValue[key], newValue[key], [...path, key], changes, options)
+    );
+    return;
+  }
+
+  if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+    changes.push({ type: "changed", path, oldValue, newValue });
+  }
+}
+
+/**
+ * Compare two OpenAPI documents and list every structural difference
+ */
+export function diffSpecs(
+  oldSpec: any,
+  newSpec: any,
+  options: SpecDiffOptions = {}
+): SpecChange[] {
+  const changes: SpecChange[] = [];
+
+  // Round-trip through JSON so undefined values are ignored like in the written file
+  diffValues(
+    JSON.parse(JSON.stringify(oldSpec)),
+    JSON.parse(JSON.stringify(newSpec)),
+    [],
+    changes,
+    options
+  );
+
+  return changes;
+}
+
+/**
+ * Format a path as e.g. paths["/users/{id}"].get.responses["200"]
+ */
+export function formatSpecPath(path: string[]): string {
+  return path
+    .map((key, index) => {
+      if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+        return index === 0 ? key : `.${key}`;
+      }
+      return `[${JSON.stringify(key)}]`;
+    })
+    .join("");
+}
+
+function formatValue(value: any): string {
+  if (isPrimitive(value)) return JSON.stringify(value);
+
+  return Array.isArray(value) ? "[...]" : "{...}";
+}
+
+export function formatSpecChange(change: SpecChange): string {
+  const path = formatSpecPath(change.path) || "(root)";
+
+  switch (change.type) {
+    case "added":
+      return `+ ${path}: ${formatValue(change.newValue)}`;
+    case "removed":
+      return `- ${path}: ${formatValue(change.oldValue)}`;
+    default:
+      return `~ ${path}: ${formatValue(change.oldValue)} -> ${formatValue(
+        change.newValue
+      )}`;
+  }
+}
+
+export type ClassifiedSpecChange = SpecChange & {
+  breaking: boolean;
+  reason: string;
+};
+
+const HTTP_METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+];
+
+// Constraints that reject more values when increased or decreased
+const LOWER_BOUNDS = ["minimum", "minLength", "minItems", "minProperties"];
+const UPPER_BOUNDS = ["maximum", "maxLength", "maxItems", "maxProperties"];
+
+const SCHEMA_REF_PREFIX = "#/components/schemas/";
+
+// What a schema describes: data sent by clients, returned to them, or both
+type Direction = "request" | "response";
+
+/**
+ * Find whether each component schema is used by requests, responses or both,
+ * following the schemas that reference it
+ */
+function getSchemaDirections(spec: any): Record<string, Set<Direction>> {
+  const directions: Record<string, Set<Direction>> = {};
+
+  const visit = (value: any, direction: Direction) => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, direction));
+      return;
+    }
+    if (!isObject(value)) return;
+
+    if (
+      typeof value.$ref === "string" &&
+      value.$ref.startsWith(SCHEMA_REF_PREFIX)
+    ) {
+      const name = value.$ref.slice(SCHEMA_REF_PREFIX.length);
+      if (!directions[name]) {
+        directions[name] = new Set();
+      }
+      if (!directions[name].has(direction)) {
+        directions[name].add(direction);
+        visit(spec?.components?.schemas?.[name], direction);
+      }
+    }
+
+    Object.values(value).forEach((item) => visit(item, direction));
+  };
+
+  Object.values(spec?.paths || {}).forEach((pathItem: any) => {
+    if (!isObject(pathItem)) return;
+
+    visit(pathItem.parameters, "request");
+    Object.values(pathItem).forEach((operation: any) => {
+      if (!isObject(operation)) return;
+
+      visit(operation.parameters, "request");
+      visit(operation.requestBody, "request");
+      visit(operation.responses, "response");
+    });
+  });
+  visit(spec?.components?.parameters, "request");
+  visit(spec?.components?.requestBodies, "request");
+  visit(spec?.components?.responses, "response");
+
+  return directions;
+}
+
+/**
+ * Get the directions of the schema a change is in. Unknown is taken as both,
+ * so a change is breaking if it is for either side.
+ */
+function getChangeDirections(
+  path: string[],
+  schemaDirections: Record<string, Set<Direction>>
+): Set<Direction> {
+  const both = new Set<Direction>(["request", "response"]);
+
+  if (path[0] === "paths") {
+    // paths["/users"].parameters or paths["/users"].get.responses
+    const section = path[2] === "parameters" ? path[2] : path[3];
+    if (section === "parameters" || section === "requestBody") {
+      return new Set(["request"]);
+    }
+    return section === "responses" ? new Set(["response"]) : both;
+  }
+
+  if (path[0] === "components") {
+    switch (path[1]) {
+      case "schemas":
+        return schemaDirections[path[2]]?.size > 0
+          ? schemaDirections[path[2]]
+          : both;
+      case "parameters":
+      case "requestBodies":
+        return new Set(["request"]);
+      case "responses":
+        return new Set(["response"]);
+    }
+  }
+
+  return both;
+}
+
+function classifySpecChange(
+  change: SpecChange,
+  schemaDirections: Record<string, Set<Direction>>
+): {
+  breaking: boolean;
+  reason: string;
+} {
+  const { type, path, oldValue, newValue } = change;
+  const key = path[path.length - 1];
+  const parentKey = path[path.length - 2];
+  const directions = getChangeDirections(path, schemaDirections);
+  const isRequest = directions.has("request");
+  const isResponse = directions.has("response");
+  // Schema keywords, not properties named like them
+  const isKeyword = parentKey !== "properties";
+
+  if (path[0] === "paths" && path.length === 2 && type === "removed") {
+    return { breaking: true, reason: "Path removed" };
+  }
+
+  if (
+    path[0] === "paths" &&
+    path.length === 3 &&
+    HTTP_METHODS.includes(key) &&
+    type === "removed"
+  ) {
+    return { breaking: true, reason: "Operation removed" };
+  }
+
+  if (parentKey === "parameters") {
+    if (type === "added" && newValue?.required) {
+      return { breaking: true, reason: "Required parameter added" };
+    }
+    if (type === "removed") {
+      return { breaking: true, reason: "Parameter removed" };
+    }
+  }
+
+  if (key === "required" && isKeyword) {
+    if (type !== "removed" && newValue === true) {
+      return { breaking: true, reason: "Became required" };
+    }
+
+    // A required entry, or a whole required array, added or replaced
+    const toList = (value: any) =>
+      typeof value === "string" ? [value] : Array.isArray(value) ? value : [];
+    const addedNames =
+      type === "removed"
+        ? []
+        : toList(newValue).filter(
+            (name) => type === "added" || !toList(oldValue).includes(name)
+          );
+    const removedNames =
+      type === "added"
+        ? []
+        : toList(oldValue).filter(
+            (name) => type === "removed" || !toList(newValue).includes(name)
+          );
+
+    if (addedNames.length > 0 && isRequest) {
+      return { breaking: true, reason: "Property became required" };
+    }
+    if (removedNames.length > 0 && isResponse) {
+      return { breaking: true, reason: "Property no longer required" };
+    }
+  }
+
+  if (key === "requestBody" && type === "added" && newValue?.required) {
+    return { breaking: true, reason: "Required request body added" };
+  }
+
+  if (key === "security" && type === "added") {
+    return { breaking: true, reason: "Security requirement added" };
+  }
+
+  // Requests may send fewer values, responses may not return more
+  if (key === "enum" && isKeyword) {
+    const isList = Array.isArray(type === "removed" ? oldValue : newValue);
+
+    if (type === "removed" && !isList && isRequest) {
+      return { breaking: true, reason: "Enum value removed" };
+    }
+    if (type === "added" && !isList && isResponse) {
+      return { breaking: true, reason: "Enum value added" };
+    }
+    if (type === "added" && isList && isRequest) {
+      return { breaking: true, reason: "Enum added" };
+    }
+    if (type === "removed" && isList && isResponse) {
+      return { breaking: true, reason: "Enum removed" };
+    }
+  }
+
+  if (key === "$ref" && type !== "added") {
+    return { breaking: true, reason: "Referenced schema changed" };
+  }
+
+  if ((key === "type" || key === "format") && type !== "added") {
+    return { breaking: true, reason: `Schema ${key} changed` };
+  }
+
+  // Clients may still send a removed property, but can't read it anymore
+  if (parentKey === "properties" && type === "removed" && isResponse) {
+    return { breaking: true, reason: "Property removed" };
+  }
+
+  if (parentKey === "responses" && path[0] === "paths" && type === "removed") {
+    return { breaking: true, reason: "Response removed" };
+  }
+
+  if (path[0] === "components" && path.length === 3 && type === "removed") {
+    return { breaking: true, reason: "Component removed" };
+  }
+
+  if (LOWER_BOUNDS.includes(key)) {
+    if (type === "added" || (type === "changed" && newValue > oldValue)) {
+      return { breaking: true, reason: `${key} constraint narrowed` };
+    }
+  }
+
+  if (UPPER_BOUNDS.includes(key)) {
+    if (type === "added" || (type === "changed" && newValue < oldValue)) {
+      return { breaking: true, reason: `${key} constraint narrowed` };
+    }
+  }
+
+  if (key === "pattern" && type !== "removed") {
+    return { breaking: true, reason: "Pattern changed" };
+  }
+
+  return { breaking: false, reason: capitalize(type) };
+}
+
+/**
+ * Mark each change as breaking or non-breaking for API consumers, depending
+ * on whether it is in a request or a response of the compared documents
+ */
+export function classifySpecChanges(
+  changes: SpecChange[],
+  oldSpec?: any,
+  newSpec?: any
+): ClassifiedSpecChange[] {
+  const schemaDirections = getSchemaDirections(oldSpec);
+  Object.entries(getSchemaDirections(newSpec)).forEach(([name, directions]) => {
+    schemaDirections[name] = new Set([
+      ...(schemaDirections[name] || []),
+      ...directions,
+    ]);
+  });
+
+  return changes.map((change) => ({
+    ...change,
+    ...classifySpecChange(change, schemaDirections),
+  }));
+}
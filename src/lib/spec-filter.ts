@@ -0,0 +1,137 @@
+import { SpecConfig } from "../types.js";
+
+const SCHEMA_REF_PREFIX = "#/components/schemas/";
+
+/**
+ * Convert a route path glob to a regular expression.
+ * `*` matches within a segment, `**` across segments.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split(/(\*\*\/?|\*|\?)/)
+    .map((part) => {
+      if (part === "**/") return "(?:.*/)?";
+      if (part === "**") return ".*";
+      if (part === "*") return "[^/]*";
+      if (part === "?") return "[^/]";
+
+      return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+
+  return new RegExp(`^${source}$`);
+}
+
+function matchesAny(routePath: string, globs: string[]): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(routePath));
+}
+
+function collectSchemaRefs(value: any, refs: Set<string>) {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectSchemaRefs(item, refs));
+    return;
+  }
+
+  if (!value || typeof value !== "object") return;
+
+  Object.entries(value).forEach(([key, item]) => {
+    if (
+      key === "$ref" &&
+      typeof item === "string" &&
+      item.startsWith(SCHEMA_REF_PREFIX)
+    ) {
+      refs.add(item.substring(SCHEMA_REF_PREFIX.length));
+    } else {
+      collectSchemaRefs(item, refs);
+    }
+  });
+}
+
+/**
+ * Drop schemas that are not referenced (directly or through other schemas)
+ * by the document, except the ones listed in keepSchemas
+ */
+function pruneSchemas(spec: any, keepSchemas: string[]) {
+  const schemas = spec.components?.schemas;
+  if (!schemas) return;
+
+  const { schemas: _, ...otherComponents } = spec.components;
+  const used = new Set<string>(keepSchemas);
+  collectSchemaRefs([spec.paths, otherComponents], used);
+
+  // Follow references between schemas
+  const pending = [...used];
+  while (pending.length > 0) {
+    const refs = new Set<string>();
+    collectSchemaRefs(schemas[pending.pop()], refs);
+
+    refs.forEach((schemaName) => {
+      if (!used.has(schemaName)) {
+        used.add(schemaName);
+        pending.push(schemaName);
+      }
+    });
+  }
+
+  spec.components.schemas = Object.fromEntries(
+    Object.entries(schemas).filter(([schemaName]) => used.has(schemaName))
+  );
+}
+
+/**
+ * Build the document of a single entry of the `specs` config
+ * @param isOpenApiOperation Whether an operation has an @openapi tag
+ * @param keepSchemas Schemas defined in the config, kept even if unused
+ */
+export function filterSpec(
+  spec: any,
+  specConfig: SpecConfig,
+  includeOpenApiRoutes: boolean,
+  isOpenApiOperation: (routePath: string, method: string) => boolean,
+  keepSchemas: string[] = []
+): any {
+  const {
+    info,
+    servers,
+    include = [],
+    exclude = [],
+    tags = [],
+    excludeTags = [],
+  } = specConfig;
+  const newSpec = JSON.parse(JSON.stringify(spec));
+
+  newSpec.info = { ...newSpec.info, ...info };
+  if (servers) {
+    newSpec.servers = servers;
+  }
+
+  const paths: Record<string, any> = {};
+
+  Object.entries(newSpec.paths || {}).forEach(
+    ([routePath, pathItem]: [string, any]) => {
+      if (include.length > 0 && !matchesAny(routePath, include)) return;
+      if (matchesAny(routePath, exclude)) return;
+
+      Object.entries(pathItem).forEach(([method, operation]: [string, any]) => {
+        const operationTags: string[] = operation?.tags || [];
+
+        if (includeOpenApiRoutes && !isOpenApiOperation(routePath, method)) {
+          return;
+        }
+        if (tags.length > 0 && !operationTags.some((t) => tags.includes(t))) {
+          return;
+        }
+        if (operationTags.some((t) => excludeTags.includes(t))) {
+          return;
+        }
+
+        paths[routePath] = { ...paths[routePath], [method]: operation };
+      });
+    }
+  );
+
+  newSpec.paths = paths;
+  pruneSchemas(newSpec, keepSchemas);
+
+  return newSpec;
+}
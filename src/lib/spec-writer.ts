@@ -0,0 +1,189 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+
+import { OutputMode } from "../types.js";
+
+const SCHEMA_REF_PREFIX = "#/components/schemas/";
+
+export function isYamlFile(filePath: string): boolean {
+  return /\.ya?ml$/i.test(filePath);
+}
+
+/**
+ * Serialize a document as JSON or YAML, depending on the file extension
+ */
+export function serializeSpec(spec: any, filePath: string): string {
+  // Drop undefined values the same way for both formats
+  const document = JSON.parse(JSON.stringify(spec));
+
+  if (isYamlFile(filePath)) {
+    return YAML.stringify(document);
+  }
+
+  return JSON.stringify(document, null, 2);
+}
+
+export function readSpecFile(filePath: string): any {
+  const content = fs.readFileSync(filePath, "utf-8");
+
+  return isYamlFile(filePath) ? YAML.parse(content) : JSON.parse(content);
+}
+
+/**
+ * Get the file name of a path item, e.g. /users/{id} -> users_{id}.
+ * Other characters, including "_" and "~", are escaped as ~XX (UTF-8 hex)
+ * so that different paths never share a file, e.g. /a_b -> a~5Fb.
+ */
+function getPathFileName(routePath: string): string {
+  const name = routePath
+    .replace(/^\//, "")
+    .split("/")
+    .map((segment) =>
+      segment.replace(/[^a-zA-Z0-9{}.-]/gu, (char) =>
+        Array.from(Buffer.from(char, "utf-8"))
+          .map((byte) => `~${byte.toString(16).toUpperCase().padStart(2, "0")}`)
+          .join("")
+      )
+    )
+    .join("_");
+
+  // Route paths have no empty segments, so "_" alone is free for the root
+  return name || "_";
+}
+
+function toRelativeRef(fromDir: string, target: string): string {
+  const relativePath = path.posix.relative(fromDir, target);
+
+  return relativePath.startsWith(".") ? relativePath : `./${relativePath}`;
+}
+
+/**
+ * Point local refs of a document written to fromDir to the split files
+ */
+function rewriteRefs(
+  value: any,
+  fromDir: string,
+  rootFile: string,
+  extension: string
+): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => rewriteRefs(item, fromDir, rootFile, extension));
+  }
+
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  const result: Record<string, any> = {};
+
+  Object.entries(value).forEach(([key, item]) => {
+    if (key === "$ref" && typeof item === "string" && item.startsWith("#/")) {
+      if (item.startsWith(SCHEMA_REF_PREFIX)) {
+        const schemaName = item.substring(SCHEMA_REF_PREFIX.length);
+        result[key] = toRelativeRef(
+          fromDir,
+          `components/schemas/${schemaName}${extension}`
+        );
+      } else if (fromDir === ".") {
+        result[key] = item;
+      } else {
+        result[key] = `${toRelativeRef(fromDir, rootFile)}${item}`;
+      }
+    } else {
+      result[key] = rewriteRefs(item, fromDir, rootFile, extension);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Build all documents to write, keyed by their path relative to the output directory.
+ * In split mode, path items and schemas are written to separate files
+ * linked to the root document with relative $refs.
+ */
+export function buildSpecFiles(
+  spec: any,
+  outputFile: string,
+  outputMode: OutputMode = "single"
+): Record<string, any> {
+  if (outputMode !== "split") {
+    return { [outputFile]: spec };
+  }
+
+  const extension = path.extname(outputFile) || ".json";
+  const baseDir = path.posix.dirname(outputFile.replaceAll("\\", "/"));
+  const rootFile = path.posix.basename(outputFile);
+  const files: Record<string, any> = {};
+
+  const root = { ...spec, paths: {} };
+
+  Object.entries(spec.paths || {}).forEach(([routePath, pathItem]) => {
+    const file = `paths/${getPathFileName(routePath)}${extension}`;
+    files[file] = rewriteRefs(pathItem, "paths", rootFile, extension);
+    root.paths[routePath] = { $ref: `./${file}` };
+  });
+
+  const schemas = spec.components?.schemas || {};
+  if (Object.keys(schemas).length > 0) {
+    root.components = { ...spec.components, schemas: {} };
+
+    Object.entries(schemas).forEach(([schemaName, schema]) => {
+      const file = `components/schemas/${schemaName}${extension}`;
+      files[file] = rewriteRefs(
+        schema,
+        "components/schemas",
+        rootFile,
+        extension
+      );
+      root.components.schemas[schemaName] = { $ref: `./${file}` };
+    });
+  }
+
+  files[rootFile] = rewriteRefs(root, ".", rootFile, extension);
+
+  // Keep the files next to the root document
+  return Object.fromEntries(
+    Object.entries(files).map(([file, document]) => [
+      path.posix.join(baseDir, file),
+      document,
+    ])
+  );
+}
+
+/**
+ * Find split files left over from previous runs, e.g. of a deleted route
+ */
+export function findStaleSpecFiles(
+  outputDir: string,
+  outputFile: string,
+  files: Record<string, any>
+): string[] {
+  const extension = path.extname(outputFile) || ".json";
+  const baseDir = path.join(outputDir, path.dirname(outputFile));
+  const expectedFiles = new Set(
+    Object.keys(files).map((file) => path.join(outputDir, file))
+  );
+
+  return ["paths", path.join("components", "schemas")].flatMap((dir) => {
+    const dirPath = path.join(baseDir, dir);
+    if (!fs.existsSync(dirPath)) return [];
+
+    return fs
+      .readdirSync(dirPath)
+      .filter((file) => file.endsWith(extension))
+      .map((file) => path.join(dirPath, file))
+      .filter((filePath) => !expectedFiles.has(filePath));
+  });
+}
+
+export function removeStaleSpecFiles(
+  outputDir: string,
+  outputFile: string,
+  files: Record<string, any>
+) {
+  findStaleSpecFiles(outputDir, outputFile, files).forEach((filePath) =>
+    fs.unlinkSync(filePath)
+  );
+}
@@ -1,8 +1,10 @@
+import path from "path";
 import { NodePath } from "@babel/traverse";
 import { parse, ParserOptions } from "@babel/parser";
 import * as t from "@babel/types";
 
-import { DataTypes } from "../types.js";
+import { DataTypes, OpenApiConfig, SuccessResponse } from "../types.js";
+import { logger } from "./logger.js";
 
 export function capitalize(string: string) {
   return string.charAt(0).toUpperCase() + string.slice(1);
@@ -25,12 +27,17 @@ export function extractPathParameters(routePath: string): string[] {
 }
 
 export function extractJSDocComments(path: NodePath): DataTypes {
-  const comments = path.node.leadingComments;
+  return parseJSDocComments(path.node.leadingComments);
+}
+
+export function parseJSDocComments(comments?: t.Comment[] | null): DataTypes {
   let tag = "";
   let summary = "";
   let description = "";
   let paramsType = "";
   let pathParamsType = "";
+  let headersType = "";
+  let cookiesType = "";
   let bodyType = "";
   let auth = "";
   let isOpenApi = false;
@@ -39,9 +46,16 @@ export function extractJSDocComments(path: NodePath): DataTypes {
   let contentType = "";
   let responseType = "";
   let responseDescription = "";
+  let responseHeadersType = "";
+  let streamType = "";
   let responseSet = "";
   let addResponses = "";
   let successCode = "";
+  let operationId = "";
+  const successResponses: SuccessResponse[] = [];
+  const bodyExamples: string[] = [];
+  const responseExamples: Array<{ code?: string; value: string }> = [];
+  const paramExamples: Array<{ name: string; value: string }> = [];
 
   if (comments) {
     comments.forEach((comment) => {
@@ -103,6 +117,14 @@ export function extractJSDocComments(path: NodePath): DataTypes {
         pathParamsType = extractTypeFromComment(commentValue, "@pathParams");
       }
 
+      if (commentValue.includes("@headers")) {
+        headersType = extractTypeFromComment(commentValue, "@headers");
+      }
+
+      if (commentValue.includes("@cookies")) {
+        cookiesType = extractTypeFromComment(commentValue, "@cookies");
+      }
+
       if (commentValue.includes("@body")) {
         bodyType = extractTypeFromComment(commentValue, "@body");
       }
@@ -127,6 +149,24 @@ export function extractJSDocComments(path: NodePath): DataTypes {
         }
       }
 
+      if (commentValue.includes("@responseHeaders")) {
+        responseHeadersType = extractTypeFromComment(
+          commentValue,
+          "@responseHeaders"
+        );
+      }
+
+      if (commentValue.includes("@stream")) {
+        streamType = extractTypeFromComment(commentValue, "@stream");
+      }
+
+      if (commentValue.includes("@operationId")) {
+        const match = commentValue.match(/@operationId\s+(\S+)/);
+        if (match) {
+          operationId = match[1];
+        }
+      }
+
       if (commentValue.includes("@responseSet")) {
         const regex = /@responseSet\s*(.*)/;
         const match = commentValue.match(regex);
@@ -143,25 +183,52 @@ export function extractJSDocComments(path: NodePath): DataTypes {
         }
       }
 
-      if (commentValue.includes("@response")) {
-        const responseMatch = commentValue.match(
-          /@response\s+(?:(\d+):)?(\w+)(?::(.*))?/
-        );
-        if (responseMatch) {
-          const [, code, type, description] = responseMatch;
-          successCode = code || "";
-          responseType = type;
-          // Set responseDescription only if not already set by @responseDescription
-          if (description?.trim() && !responseDescription) {
-            responseDescription = description.trim();
-          }
-        } else {
-          responseType = extractTypeFromComment(commentValue, "@response");
+      extractTagValues(commentValue, "@bodyExample").forEach((value) =>
+        bodyExamples.push(value)
+      );
+
+      // @responseExample 404 {"error": "Not found"}
+      extractTagValues(commentValue, "@responseExample").forEach((value) => {
+        const [, code, example] = value.match(/^(?:(\d{3})\s+)?([\s\S]*)$/);
+        responseExamples.push({ code, value: example });
+      });
+
+      // @paramExample status=active
+      extractTagValues(commentValue, "@paramExample").forEach((value) => {
+        const match = value.match(/^([\w.-]+)\s*=\s*([\s\S]*)$/);
+        if (match) {
+          paramExamples.push({ name: match[1], value: match[2] });
         }
-      }
+      });
+
+      // @response 201:User:Description, @response 200:Report:text/csv
+      const responseMatches = [
+        ...commentValue.matchAll(
+          /@response[ \t]+(?:(\d+):)?(\w+)(?::([\w.+-]+\/[\w.+-]+))?(?::(.*))?/g
+        ),
+      ];
+      responseMatches.forEach(([, code, type, mediaType, description]) => {
+        successResponses.push({
+          code,
+          type,
+          mediaType,
+          description: description?.trim() || undefined,
+        });
+      });
     });
   }
 
+  // The first @response is the main success response
+  if (successResponses.length > 0) {
+    const [{ code, type, description }] = successResponses;
+    successCode = code || "";
+    responseType = type;
+    // Set responseDescription only if not already set by @responseDescription
+    if (description && !responseDescription) {
+      responseDescription = description;
+    }
+  }
+
   return {
     tag,
     auth,
@@ -169,6 +236,8 @@ export function extractJSDocComments(path: NodePath): DataTypes {
     description,
     paramsType,
     pathParamsType,
+    headersType,
+    cookiesType,
     bodyType,
     isOpenApi,
     deprecated,
@@ -176,17 +245,71 @@ export function extractJSDocComments(path: NodePath): DataTypes {
     contentType,
     responseType,
     responseDescription,
+    responseHeadersType,
+    streamType,
     responseSet,
     addResponses,
     successCode,
+    operationId,
+    successResponses,
+    bodyExamples,
+    responseExamples,
+    paramExamples,
   };
 }
 
+/**
+ * Get the values of every occurrence of a tag. A value starting with { or [
+ * can span several lines, other values end with the line.
+ */
+export function extractTagValues(commentValue: string, tag: string): string[] {
+  const values: string[] = [];
+  const tagRegex = new RegExp(`${tag}(?!\\w)[ \\t]*`, "g");
+
+  for (const match of commentValue.matchAll(tagRegex)) {
+    const rest = commentValue.slice(match.index + match[0].length);
+    const jsonStart = rest.search(/[{[]/);
+    const lineEnd =
+      rest.indexOf("\n") === -1 ? rest.length : rest.indexOf("\n");
+
+    if (jsonStart === -1 || jsonStart > lineEnd) {
+      values.push(rest.slice(0, lineEnd).trim());
+      continue;
+    }
+
+    // Find the closing bracket, skipping the ones in strings
+    let depth = 0;
+    let inString = false;
+    let end = rest.length;
+    for (let i = jsonStart; i < rest.length; i++) {
+      const char = rest[i];
+      if (inString) {
+        if (char === "\\") i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        depth++;
+      } else if ((char === "}" || char === "]") && --depth === 0) {
+        end = i + 1;
+        break;
+      }
+    }
+
+    values.push(rest.slice(0, end).trim());
+  }
+
+  return values.filter(Boolean);
+}
+
 export function extractTypeFromComment(
   commentValue: string,
   tag: string
 ): string {
-  return commentValue.match(new RegExp(`${tag}\\s*\\s*(\\w+)`))?.[1] || "";
+  // (?!\w) so @response doesn't match @responseHeaders
+  return (
+    commentValue.match(new RegExp(`${tag}(?!\\w)\\s*\\s*(\\w+)`))?.[1] || ""
+  );
 }
 
 export function cleanComment(commentValue: string): string {
@@ -200,11 +323,20 @@ export function cleanSpec(spec: any) {
     "docsUrl",
     "ui",
     "outputFile",
+    "outputDir",
+    "outputMode",
+    "specUrl",
     "includeOpenApiRoutes",
     "schemaType",
     "defaultResponseSet",
     "responseSets",
     "errorConfig",
+    "openapiVersion",
+    "specs",
+    "routeGroupTags",
+    "responseSetHeaders",
+    "handlerWrappers",
+    "operationIdStrategy",
     "debug",
   ];
   const newSpec = { ...spec };
@@ -242,10 +374,136 @@ export function cleanSpec(spec: any) {
 
   return newSpec;
 }
-export function getOperationId(routePath: string, method: string) {
-  const operation = routePath.replaceAll(/\//g, "-").replace(/^-/, "");
 
-  return `${method}-${operation}`;
+/**
+ * Map an errorConfig code like "not_found" to its HTTP status
+ */
+export function guessHttpStatus(errorCode: string): number {
+  const numericCode = parseInt(errorCode);
+  if (numericCode >= 100 && numericCode < 600) {
+    return numericCode;
+  }
+
+  const statusMap = {
+    bad: 400,
+    invalid: 400,
+    validation: 422,
+    unauthorized: 401,
+    auth: 401,
+    forbidden: 403,
+    permission: 403,
+    not_found: 404,
+    missing: 404,
+    conflict: 409,
+    duplicate: 409,
+    rate_limit: 429,
+    too_many: 429,
+    server: 500,
+    internal: 500,
+  };
+
+  for (const [key, status] of Object.entries(statusMap)) {
+    if (errorCode.toLowerCase().includes(key)) {
+      return status;
+    }
+  }
+  return 500;
+}
+
+/**
+ * Get the URL the docs page loads the specification from.
+ * Files written to ./public are served by Next.js from the root URL.
+ */
+export function getSpecUrl({
+  outputDir = "./public",
+  outputFile,
+  specUrl,
+}: Pick<OpenApiConfig, "outputDir" | "outputFile" | "specUrl">): string {
+  if (specUrl) {
+    return specUrl;
+  }
+
+  const relativePath = path.relative(
+    path.resolve("./public"),
+    path.resolve(outputDir, outputFile)
+  );
+
+  if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+    logger.warn(
+      `${path.join(
+        outputDir,
+        outputFile
+      )} is outside ./public and not served by Next.js, set specUrl to the URL the docs page loads it from`
+    );
+    return `/${outputFile}`;
+  }
+
+  return `/${relativePath.replaceAll("\\", "/")}`;
+}
+
+// Placeholders of an operationIdStrategy template, e.g. "{method}{Resource}"
+export const OPERATION_ID_PLACEHOLDERS = [
+  "method",
+  "Method",
+  "path",
+  "Path",
+  "resource",
+  "Resource",
+];
+
+function toPascalCase(segment: string): string {
+  return segment
+    .split(/[^A-Za-z0-9]+/)
+    .map(capitalize)
+    .join("");
+}
+
+/**
+ * Get the operationId of an operation with the operationIdStrategy:
+ * "method-path" (get-users-{id}), "camelCase" (getUsersById) or a template
+ * of OPERATION_ID_PLACEHOLDERS, e.g. "{method}{Resource}" (getUsers)
+ */
+export function getOperationId(
+  routePath: string,
+  method: string,
+  strategy = "method-path"
+) {
+  if (strategy === "method-path") {
+    const operation = routePath.replaceAll(/\//g, "-").replace(/^-/, "");
+
+    return `${method}-${operation}`;
+  }
+
+  const segments = routePath.split("/").filter(Boolean);
+  // /users/{id} -> UsersById
+  const pathName = segments
+    .map((segment) => {
+      const param = segment.match(/^\{(.+)\}$/);
+      return param ? `By${toPascalCase(param[1])}` : toPascalCase(segment);
+    })
+    .join("");
+
+  if (strategy === "camelCase") {
+    return `${method}${pathName}`;
+  }
+
+  // The last segment that isn't a parameter, e.g. Users for /users/{id}
+  const resource = toPascalCase(
+    [...segments].reverse().find((segment) => !segment.startsWith("{")) || ""
+  );
+  const values: Record<string, string> = {
+    method,
+    Method: capitalize(method),
+    path: pathName.charAt(0).toLowerCase() + pathName.slice(1),
+    Path: pathName,
+    resource: resource.charAt(0).toLowerCase() + resource.slice(1),
+    Resource: resource,
+  };
+
+  return strategy.replace(
+    /\{(\w+)\}/g,
+    (placeholder, name) => values[name] ?? placeholder
+  );
 }
 
 /**
@@ -271,3 +529,36 @@ export function parseTypeScriptFile(
     ...options,
   });
 }
+
+/**
+ * Collect names of top-level types, interfaces, enums and variables declared in a file
+ * @param ast - Parsed AST
+ * @returns Declared names
+ */
+export function collectDeclaredNames(ast: t.File): string[] {
+  const names: string[] = [];
+
+  ast.program.body.forEach((statement) => {
+    const declaration =
+      t.isExportNamedDeclaration(statement) && statement.declaration
+        ? statement.declaration
+        : statement;
+
+    if (t.isVariableDeclaration(declaration)) {
+      declaration.declarations.forEach((decl) => {
+        if (t.isIdentifier(decl.id)) {
+          names.push(decl.id.name);
+        }
+      });
+    } else if (
+      (t.isTSTypeAliasDeclaration(declaration) ||
+        t.isTSInterfaceDeclaration(declaration) ||
+        t.isTSEnumDeclaration(declaration)) &&
+      t.isIdentifier(declaration.id)
+    ) {
+      names.push(declaration.id.name);
+    }
+  });
+
+  return names;
+}
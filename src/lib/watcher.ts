@@ -0,0 +1,98 @@
+import fs from "fs";
+import path from "path";
+
+import { logger } from "./logger.js";
+
+const IGNORED_DIRS = ["node_modules", ".git", ".next"];
+
+/**
+ * Watches directories for changes and reports changed paths in batches.
+ * Sub-directories are watched one by one, as recursive fs.watch is not
+ * available on every platform supported by Node 18.
+ */
+export class FileWatcher {
+  private watchers: Record<string, fs.FSWatcher> = {};
+  private changedPaths: Set<string> = new Set();
+  private timeout: NodeJS.Timeout | null = null;
+
+  constructor(
+    private onChange: (changedPaths: string[]) => void,
+    private delay: number = 100
+  ) {}
+
+  /**
+   * Watch a directory (and its sub-directories unless recursive is false)
+   */
+  public watch(dir: string, recursive: boolean = true): void {
+    const dirPath = path.resolve(dir);
+    if (this.watchers[dirPath]) return;
+
+    const stat = fs.statSync(dirPath, { throwIfNoEntry: false });
+    if (!stat?.isDirectory()) return;
+
+    try {
+      const watcher = fs.watch(dirPath, (event, fileName) => {
+        if (!fileName) return;
+
+        const changedPath = path.join(dirPath, fileName.toString());
+        this.changedPaths.add(changedPath);
+
+        // Pick up newly created directories
+        if (recursive) {
+          this.watch(changedPath);
+        }
+
+        this.schedule();
+      });
+
+      watcher.on("error", () => this.unwatch(dirPath));
+      this.watchers[dirPath] = watcher;
+
+      if (!recursive) return;
+
+      fs.readdirSync(dirPath, { withFileTypes: true }).forEach((entry) => {
+        if (entry.isDirectory() && !IGNORED_DIRS.includes(entry.name)) {
+          this.watch(path.join(dirPath, entry.name));
+        }
+      });
+    } catch (error) {
+      logger.debug(`Could not watch ${dirPath}: ${error}`);
+    }
+  }
+
+  public close(): void {
+    Object.keys(this.watchers).forEach((dirPath) => this.unwatch(dirPath));
+
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+
+  private unwatch(dirPath: string): void {
+    this.watchers[dirPath]?.close();
+    delete this.watchers[dirPath];
+  }
+
+  private schedule(): void {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+    }
+
+    // Editors usually emit several events for a single save
+    this.timeout = setTimeout(() => {
+      this.timeout = null;
+
+      // Drop watchers of removed directories
+      Object.keys(this.watchers).forEach((dirPath) => {
+        if (!fs.existsSync(dirPath)) {
+          this.unwatch(dirPath);
+        }
+      });
+
+      const changedPaths = [...this.changedPaths];
+      this.changedPaths.clear();
+      this.onChange(changedPaths);
+    }, this.delay);
+  }
+}
@@ -16,6 +16,7 @@ export class ZodSchemaConverter {
   processingSchemas: Set<string> = new Set();
   processedModules: Set<string> = new Set();
   typeToSchemaMapping = {};
+  schemaDependents: Record<string, Set<string>> = {};
 
   constructor(schemaDir: string) {
     this.schemaDir = path.resolve(schemaDir);
@@ -41,6 +42,8 @@ export class ZodSchemaConverter {
       schemaName = mappedSchemaName;
     }
 
+    this.trackDependency(schemaName);
+
     // Check for circular references
     if (this.processingSchemas.has(schemaName)) {
       return { $ref: `#/components/schemas/${schemaName}` };
@@ -452,6 +455,8 @@ export class ZodSchemaConverter {
                   `Found chained call starting from: ${baseSchemaName}`
                 );
 
+                this.trackDependency(baseSchemaName);
+
                 // First make sure the underlying schema is processed
                 if (!this.zodSchemas[baseSchemaName]) {
                   logger.debug(
@@ -641,6 +646,7 @@ export class ZodSchemaConverter {
       node.callee.property.name === "extend"
     ) {
       const baseSchemaName = node.callee.object.name;
+      this.trackDependency(baseSchemaName);
 
       // Check if the base schema already exists
       if (!this.zodSchemas[baseSchemaName]) {
@@ -1612,6 +1618,59 @@ export class ZodSchemaConverter {
     return false;
   }
 
+  /**
+   * Record schemas that are currently being processed as dependents of the given schema
+   */
+  trackDependency(schemaName: string) {
+    this.processingSchemas.forEach((parentName) => {
+      if (parentName === schemaName) return;
+
+      if (!this.schemaDependents[schemaName]) {
+        this.schemaDependents[schemaName] = new Set();
+      }
+      this.schemaDependents[schemaName].add(parentName);
+    });
+  }
+
+  /**
+   * Drop cached schemas, and the schemas built from them, so they are converted again
+   */
+  invalidateSchemas(schemaNames: string[]): string[] {
+    const invalidated = new Set<string>();
+    const queue = [...schemaNames];
+
+    while (queue.length > 0) {
+      const schemaName = queue.pop();
+      if (invalidated.has(schemaName)) continue;
+      invalidated.add(schemaName);
+
+      // Type aliases (z.infer) share the schema object
+      Object.entries(this.typeToSchemaMapping).forEach(
+        ([typeName, referencedSchemaName]) => {
+          if (referencedSchemaName === schemaName) {
+            queue.push(typeName);
+          }
+        }
+      );
+
+      (this.schemaDependents[schemaName] || new Set()).forEach((dependent) =>
+        queue.push(dependent)
+      );
+    }
+
+    // Type mappings are re-scanned only for the declaring file
+    schemaNames.forEach((schemaName) => {
+      delete this.typeToSchemaMapping[schemaName];
+    });
+
+    invalidated.forEach((schemaName) => {
+      delete this.zodSchemas[schemaName];
+      delete this.schemaDependents[schemaName];
+    });
+
+    return [...invalidated];
+  }
+
   /**
    * Get all processed Zod schemas
    */
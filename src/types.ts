@@ -1,20 +1,68 @@
 export type ResponseSetDefinition = string[]; // ["400:BadRequest", "401:Unauthorized"]
 export type ResponseSets = Record<string, ResponseSetDefinition>;
 
+// OpenAPI header object, e.g. { description: "Requests left", schema: { type: "integer" } }
+export type ResponseHeader = {
+  description?: string;
+  schema?: any;
+  required?: boolean;
+};
+
 export type SchemaType = "typescript" | "zod";
 
+export type OpenApiVersion = "3.0" | "3.1";
+
+export type OutputMode = "single" | "split";
+
+/**
+ * One of several documents generated from the same routes
+ */
+export type SpecConfig = {
+  outputFile: string;
+  info?: Partial<OpenApiTemplate["info"]>;
+  servers?: ServerConfig[];
+  includeOpenApiRoutes?: boolean;
+  include?: string[]; // route path globs, e.g. "/users/**"
+  exclude?: string[];
+  tags?: string[];
+  excludeTags?: string[];
+};
+
+/**
+ * What wrapping a route handler implies, e.g. withAuth(handler) -> { auth: "BearerAuth" }
+ */
+export type HandlerWrapperConfig = {
+  auth?: string; // security scheme name, e.g. "BearerAuth"
+  responseSet?: string; // added to the operation's response sets
+  addResponses?: string; // same format as @add, e.g. "429" or "409:ConflictResponse"
+};
+
+export type SpecDocument = {
+  outputFile: string;
+  spec: any;
+};
+
 export type OpenApiConfig = {
   apiDir: string;
   schemaDir: string;
   docsUrl: string;
   ui: string;
   outputFile: string;
+  outputDir?: string;
+  outputMode?: OutputMode;
+  specUrl?: string;
   includeOpenApiRoutes: boolean;
   schemaType: SchemaType;
   defaultResponseSet?: string;
   responseSets?: ResponseSets;
   errorConfig?: ErrorTemplateConfig;
   errorDefinitions?: Record<string, ErrorDefinition>;
+  openapiVersion?: OpenApiVersion;
+  specs?: SpecConfig[];
+  routeGroupTags?: boolean;
+  responseSetHeaders?: Record<string, Record<string, ResponseHeader>>;
+  handlerWrappers?: Record<string, HandlerWrapperConfig>;
+  operationIdStrategy?: string; // "method-path", "camelCase" or a template like "{method}{Resource}"
   debug: boolean;
 };
 
@@ -38,6 +86,35 @@ export type OpenApiTemplate = {
   paths: Record<string, any>;
 };
 
+export type ServerConfig = {
+  url: string;
+  description?: string;
+  [key: string]: any; // e.g. variables
+};
+
+/**
+ * Contents of a config file - the spec template merged with the generator options.
+ * Only apiDir and schemaDir are required, see configSchema in config-validator.ts
+ */
+export type NextOpenApiConfig = Pick<OpenApiConfig, "apiDir" | "schemaDir"> &
+  Partial<Omit<OpenApiConfig, "apiDir" | "schemaDir">> & {
+    $schema?: string;
+    openapi?: string;
+    info?: {
+      title: string;
+      version: string;
+      description?: string;
+      [key: string]: any; // e.g. contact, license
+    };
+    servers?: ServerConfig[];
+    basePath?: string;
+    components?: OpenApiTemplate["components"] & Record<string, any>;
+    paths?: Record<string, any>;
+    tags?: Array<Record<string, any>>;
+    security?: Array<Record<string, any>>;
+    externalDocs?: Record<string, any>;
+  };
+
 export type RouteDefinition = {
   operationId: string;
   summary: string;
@@ -83,8 +160,8 @@ export type OpenApiSchema = {
   maxLength?: number;
   minimum?: number;
   maximum?: number;
-  exclusiveMinimum?: boolean;
-  exclusiveMaximum?: boolean;
+  exclusiveMinimum?: boolean | number;
+  exclusiveMaximum?: boolean | number;
   pattern?: string;
   minItems?: number;
   maxItems?: number;
@@ -100,7 +177,14 @@ export type OpenApiSchema = {
   $ref?: string;
 };
 
-export type ContentType = "params" | "pathParams" | "body" | "response" | "";
+export type ContentType =
+  | "params"
+  | "pathParams"
+  | "headers"
+  | "cookies"
+  | "body"
+  | "response"
+  | "";
 
 export type PropertyOptions = {
   description?: string;
@@ -111,8 +195,11 @@ export type PropertyOptions = {
 export type SchemaContent = {
   paramsType?: string;
   pathParamsType?: string;
+  headersType?: string;
+  cookiesType?: string;
   bodyType?: string;
   responseType?: string;
+  responseHeadersType?: string;
 };
 
 export type ParamSchema = {
@@ -121,11 +208,14 @@ export type ParamSchema = {
   schema: {
     type: string;
     enum?: (string | number | boolean)[];
+    items?: { type: string };
+    properties?: Record<string, any>;
     description?: string;
   };
   required?: boolean;
   example?: any;
   description?: string;
+  "x-catch-all"?: boolean;
 };
 
 export type OpenAPIDefinition = {
@@ -142,12 +232,23 @@ export type OpenAPIDefinition = {
   [key: string]: any;
 };
 
+export type SuccessResponse = {
+  code?: string;
+  type: string;
+  mediaType?: string; // e.g. "text/csv", defaults to application/json
+  description?: string;
+};
+
 export type DataTypes = {
   tag?: string;
   pathParamsType?: string;
   paramsType?: string;
+  headersType?: string;
+  cookiesType?: string;
   bodyType?: string;
   responseType?: string;
+  responseHeadersType?: string;
+  streamType?: string; // schema of each event of a text/event-stream response
   summary?: string;
   description?: string;
   auth?: string;
@@ -159,6 +260,11 @@ export type DataTypes = {
   responseSet?: string; // e.g. "authErrors" or "publicErrors,crudErrors"
   addResponses?: string; // e.g. "409:ConflictResponse,429:RateLimitResponse"
   successCode?: string; // e.g "201" for POST
+  operationId?: string;
+  successResponses?: SuccessResponse[]; // every @response tag, in order
+  bodyExamples?: string[]; // inline JSON or example file path
+  responseExamples?: Array<{ code?: string; value: string }>;
+  paramExamples?: Array<{ name: string; value: string }>;
 };
 
 export type RouteConfig = {